@@ -0,0 +1,279 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitHubService, MyWork, WorkspaceRepository } from './githubService';
+import { devDashProvider } from './devDashProvider';
+import { debugChannel } from './debugChannel';
+
+type WorkCategory = 'authored' | 'reviewRequested' | 'assigned';
+
+export type DashboardNode =
+    | { kind: 'category'; category: WorkCategory | 'local' }
+    | { kind: 'item'; item: any; repository?: WorkspaceRepository }
+    | { kind: 'repository'; repository: WorkspaceRepository }
+    | { kind: 'localGroup'; group: 'stashes' | 'changes'; repository: WorkspaceRepository }
+    | { kind: 'stash'; label: string; repository: WorkspaceRepository }
+    | { kind: 'change'; file: string; status: 'staged' | 'modified' | 'untracked'; repository: WorkspaceRepository }
+    | { kind: 'message'; label: string; icon: string };
+
+const CATEGORIES: { category: WorkCategory | 'local'; label: string; icon: string }[] = [
+    { category: 'authored', label: 'My Pull Requests', icon: 'git-pull-request' },
+    { category: 'reviewRequested', label: 'Review Requests', icon: 'eye' },
+    { category: 'assigned', label: 'Assigned Issues', icon: 'issues' },
+    { category: 'local', label: 'Local', icon: 'device-desktop' }
+];
+
+/**
+ * The explorer sidebar: the user's PRs, review requests and assigned issues across repositories,
+ * plus stashes and uncommitted changes of the workspace repositories. Categories load lazily
+ * when first expanded so the view never prompts for sign-in on startup.
+ */
+export class DashboardTreeProvider implements vscode.TreeDataProvider<DashboardNode> {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<DashboardNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private service: GitHubService | undefined;
+    private work: Promise<MyWork> | undefined;
+    private repositories: Promise<WorkspaceRepository[]> | undefined;
+
+    constructor(private readonly extensionUri: vscode.Uri, private readonly workspaceState?: vscode.Memento) {}
+
+    /** Created on first use, so activating the extension through this view does not touch GitHub */
+    private get githubService(): GitHubService {
+        if (!this.service) {
+            this.service = new GitHubService(this.workspaceState);
+        }
+        return this.service;
+    }
+
+    /** Reloads one category, or the whole tree when no node is given */
+    refresh(node?: DashboardNode): void {
+        debugChannel.log('Refreshing sidebar tree', { category: node?.kind === 'category' ? node.category : 'all' });
+        if (node?.kind === 'category' && node.category === 'local') {
+            this.repositories = undefined;
+        } else {
+            this.work = undefined;
+            if (!node) {
+                this.repositories = undefined;
+            }
+        }
+        // Category nodes are recreated on every root read, so the event cannot target a single one
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    async openDetails(node: DashboardNode): Promise<void> {
+        if (node.kind !== 'item') {
+            return;
+        }
+        const item = { ...node.item, type: node.item.pull_request ? 'pr' : 'issue' };
+        await devDashProvider.showItemDetails(this.extensionUri, this.workspaceState, item);
+    }
+
+    async checkoutPR(node: DashboardNode): Promise<void> {
+        if (node.kind !== 'item' || !node.repository) {
+            return;
+        }
+        const workspacePath = node.repository.path;
+        const prNumber = node.item.number;
+        try {
+            debugChannel.log('Checking out PR from sidebar', { workspacePath, prNumber });
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Checking out PR #${prNumber}...`,
+                cancellable: true
+            }, (progress, token) => this.githubService.checkoutPR(workspacePath, prNumber, token));
+            vscode.window.showInformationMessage(`Checked out PR #${prNumber}`);
+            this.refresh({ kind: 'category', category: 'local' });
+        } catch (error) {
+            debugChannel.error('Error checking out PR from sidebar', error as Error);
+            vscode.window.showErrorMessage(`Error checking out PR: ${error}`);
+        }
+    }
+
+    openInBrowser(node: DashboardNode): void {
+        if (node.kind === 'item') {
+            vscode.env.openExternal(vscode.Uri.parse(node.item.html_url));
+        }
+    }
+
+    async copyLink(node: DashboardNode): Promise<void> {
+        if (node.kind === 'item') {
+            await vscode.env.clipboard.writeText(node.item.html_url);
+            vscode.window.showInformationMessage('Link copied to clipboard');
+        }
+    }
+
+    getTreeItem(node: DashboardNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'category': {
+                const category = CATEGORIES.find(candidate => candidate.category === node.category)!;
+                const item = new vscode.TreeItem(category.label, vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `category:${node.category}`;
+                item.iconPath = new vscode.ThemeIcon(category.icon);
+                item.contextValue = 'category';
+                return item;
+            }
+            case 'item':
+                return this.getWorkItem(node.item, node.repository);
+            case 'repository': {
+                const item = new vscode.TreeItem(node.repository.name, vscode.TreeItemCollapsibleState.Collapsed);
+                item.iconPath = new vscode.ThemeIcon('repo');
+                item.description = `${node.repository.owner}/${node.repository.repo}`;
+                return item;
+            }
+            case 'localGroup': {
+                const item = new vscode.TreeItem(node.group === 'stashes' ? 'Stashes' : 'Changes', vscode.TreeItemCollapsibleState.Collapsed);
+                item.iconPath = new vscode.ThemeIcon(node.group === 'stashes' ? 'archive' : 'diff');
+                return item;
+            }
+            case 'stash': {
+                const [ref, ...rest] = node.label.split(': ');
+                const item = new vscode.TreeItem(rest.join(': ') || node.label, vscode.TreeItemCollapsibleState.None);
+                item.description = ref;
+                item.tooltip = node.label;
+                item.iconPath = new vscode.ThemeIcon('archive');
+                return item;
+            }
+            case 'change': {
+                const uri = vscode.Uri.file(path.join(node.repository.path, node.file));
+                const item = new vscode.TreeItem(uri, vscode.TreeItemCollapsibleState.None);
+                item.description = node.status;
+                item.iconPath = new vscode.ThemeIcon(node.status === 'untracked' ? 'diff-added' : 'diff-modified');
+                item.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+                return item;
+            }
+            case 'message': {
+                const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon(node.icon);
+                return item;
+            }
+        }
+    }
+
+    async getChildren(node?: DashboardNode): Promise<DashboardNode[]> {
+        if (!node) {
+            return CATEGORIES.map(category => ({ kind: 'category', category: category.category }));
+        }
+
+        try {
+            if (node.kind === 'category') {
+                return node.category === 'local'
+                    ? await this.getLocalChildren()
+                    : await this.getWorkChildren(node.category);
+            }
+            if (node.kind === 'repository') {
+                return this.getLocalGroups(node.repository);
+            }
+            if (node.kind === 'localGroup') {
+                return await this.getLocalEntries(node.group, node.repository);
+            }
+            return [];
+        } catch (error) {
+            debugChannel.error('Error loading sidebar tree', error as Error);
+            return [{ kind: 'message', label: `Failed to load: ${(error as Error).message}`, icon: 'warning' }];
+        }
+    }
+
+    dispose(): void {
+        this._onDidChangeTreeData.dispose();
+        this.service?.dispose();
+    }
+
+    private async getWorkChildren(category: WorkCategory): Promise<DashboardNode[]> {
+        if (!this.work) {
+            const pending = this.githubService.getMyWork();
+            this.work = pending;
+            // A failed load should be retried the next time the category is expanded, unless a refresh already replaced it
+            pending.catch(() => {
+                if (this.work === pending) {
+                    this.work = undefined;
+                }
+            });
+        }
+        const [work, repositories] = await Promise.all([this.work, this.getRepositories()]);
+
+        const items = work[category];
+        if (items.length === 0) {
+            return [{ kind: 'message', label: 'Nothing here', icon: 'check' }];
+        }
+        return items.map(item => ({
+            kind: 'item',
+            item,
+            repository: repositories.find(repository =>
+                repository.host === item.repository.host
+                && repository.owner.toLowerCase() === item.repository.owner.toLowerCase()
+                && repository.repo.toLowerCase() === item.repository.repo.toLowerCase())
+        }));
+    }
+
+    private async getLocalChildren(): Promise<DashboardNode[]> {
+        const repositories = await this.getRepositories();
+        if (repositories.length === 0) {
+            return [{ kind: 'message', label: 'No GitHub repositories in this workspace', icon: 'info' }];
+        }
+        if (repositories.length === 1) {
+            return this.getLocalGroups(repositories[0]);
+        }
+        return repositories.map(repository => ({ kind: 'repository', repository }));
+    }
+
+    private getLocalGroups(repository: WorkspaceRepository): DashboardNode[] {
+        return [
+            { kind: 'localGroup', group: 'stashes', repository },
+            { kind: 'localGroup', group: 'changes', repository }
+        ];
+    }
+
+    private async getLocalEntries(group: 'stashes' | 'changes', repository: WorkspaceRepository): Promise<DashboardNode[]> {
+        if (group === 'stashes') {
+            const stashes = await this.githubService.getGitStashes(repository.path);
+            return stashes.length > 0
+                ? stashes.map(label => ({ kind: 'stash', label, repository }))
+                : [{ kind: 'message', label: 'No stashes', icon: 'check' }];
+        }
+
+        const changes = await this.githubService.getUncommittedChanges(repository.path);
+        const nodes: DashboardNode[] = [];
+        for (const status of ['staged', 'modified', 'untracked'] as const) {
+            for (const file of changes[status]) {
+                nodes.push({ kind: 'change', file, status, repository });
+            }
+        }
+        return nodes.length > 0 ? nodes : [{ kind: 'message', label: 'Working tree clean', icon: 'check' }];
+    }
+
+    private getRepositories(): Promise<WorkspaceRepository[]> {
+        if (!this.repositories) {
+            const folderPaths = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+            this.repositories = this.githubService.discoverRepositories(folderPaths);
+        }
+        return this.repositories;
+    }
+
+    private getWorkItem(workItem: any, repository?: WorkspaceRepository): vscode.TreeItem {
+        const isPR = !!workItem.pull_request;
+        const item = new vscode.TreeItem(`#${workItem.number} ${workItem.title}`, vscode.TreeItemCollapsibleState.None);
+        item.description = `${workItem.repository.owner}/${workItem.repository.repo}`;
+        item.iconPath = isPR
+            ? new vscode.ThemeIcon(workItem.draft ? 'git-pull-request-draft' : 'git-pull-request', new vscode.ThemeColor('charts.green'))
+            : new vscode.ThemeIcon('issues', new vscode.ThemeColor('charts.green'));
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${isPR ? 'PR' : 'Issue'} #${workItem.number}** in ${workItem.repository.owner}/${workItem.repository.repo}\n\n`);
+        tooltip.appendText(workItem.title);
+        tooltip.appendMarkdown(`\n\nby @${workItem.user?.login || 'unknown'}, updated ${new Date(workItem.updated_at).toLocaleString()}`);
+        if (workItem.labels?.length) {
+            tooltip.appendMarkdown('\n\nLabels: ');
+            tooltip.appendText(workItem.labels.map((label: any) => label.name).join(', '));
+        }
+        item.tooltip = tooltip;
+
+        // Checkout is only offered when the PR belongs to a repository open in this workspace
+        item.contextValue = isPR ? (repository ? 'pullRequestCheckout' : 'pullRequest') : 'issue';
+        item.command = {
+            command: 'devDash.tree.openDetails',
+            title: 'Open Details',
+            arguments: [{ kind: 'item', item: workItem, repository }]
+        };
+        return item;
+    }
+}
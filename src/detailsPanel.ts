@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { RepositoryInfo, GITHUB_HOST } from './githubService';
+import { debugChannel } from './debugChannel';
+
+/**
+ * One webview panel per issue or PR. Reopening an item reveals its existing panel, and
+ * refreshed copies of the item are pushed to the panel so it never shows stale state.
+ */
+export class DetailsPanel {
+    public static readonly viewType = 'githubItemDetails';
+    private static readonly panels = new Map<string, DetailsPanel>();
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        public readonly repository: RepositoryInfo,
+        private item: any
+    ) {}
+
+    public static show(
+        item: any,
+        repository: RepositoryInfo,
+        render: (item: any) => string,
+        onMessage: (message: any, webview: vscode.Webview) => Promise<void>
+    ): DetailsPanel {
+        const key = DetailsPanel.keyFor(repository, item.number);
+        const existing = DetailsPanel.panels.get(key);
+        if (existing) {
+            debugChannel.log('Revealing existing details panel', { key });
+            existing.panel.reveal(vscode.ViewColumn.Two);
+            existing.update(item);
+            return existing;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            DetailsPanel.viewType,
+            DetailsPanel.titleFor(item),
+            vscode.ViewColumn.Two,
+            {
+                enableScripts: true,
+                // Keeps loaded comments and half-written replies when the panel is moved to the background
+                retainContextWhenHidden: true
+            }
+        );
+        const detailsPanel = new DetailsPanel(panel, repository, item);
+        DetailsPanel.panels.set(key, detailsPanel);
+
+        panel.webview.onDidReceiveMessage(message => onMessage(message, panel.webview));
+        panel.onDidDispose(() => {
+            debugChannel.log('Details panel disposed', { key });
+            DetailsPanel.panels.delete(key);
+        });
+        panel.webview.html = render(item);
+        debugChannel.info('Details panel created', { key });
+        return detailsPanel;
+    }
+
+    /** Pushes freshly fetched items to any open panels showing them; items may carry their own repository */
+    public static syncItems(items: any[], repository?: RepositoryInfo): void {
+        if (DetailsPanel.panels.size === 0) {
+            return;
+        }
+        for (const item of items) {
+            const itemRepository = item.repository || repository;
+            if (itemRepository) {
+                DetailsPanel.panels.get(DetailsPanel.keyFor(itemRepository, item.number))?.update(item);
+            }
+        }
+    }
+
+    public get webview(): vscode.Webview {
+        return this.panel.webview;
+    }
+
+    private update(item: any): void {
+        if (item.updated_at === this.item.updated_at) {
+            return;
+        }
+        debugChannel.log('Updating details panel', { number: item.number, updatedAt: item.updated_at });
+        // Keep the type the panel was opened with; list items from some sources do not carry one
+        this.item = { ...item, type: this.item.type };
+        this.panel.title = DetailsPanel.titleFor(this.item);
+        this.panel.webview.postMessage({ type: 'itemUpdated', item: this.item });
+    }
+
+    private static keyFor(repository: RepositoryInfo, number: number): string {
+        return `${repository.host || GITHUB_HOST}/${repository.owner}/${repository.repo}#${number}`.toLowerCase();
+    }
+
+    private static titleFor(item: any): string {
+        return `${item.type === 'issue' ? 'Issue' : 'PR'} #${item.number}`;
+    }
+}
@@ -1,18 +1,83 @@
 import * as vscode from 'vscode';
-import { GitHubService } from './githubService';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { GitHubService, RepositoryInfo, WorkspaceRepository, IssueStateFilter, PullRequestStateFilter, PullRequestReviewEvent, MergeOptions, CIStatus, NewReviewComment, NewPullRequest, PRBranchRef, IssueUpdate, SavedView, SHARED_VIEWS_FILE, GITHUB_HOST } from './githubService';
 import { debugChannel } from './debugChannel';
+import { PRContentProvider } from './prContentProvider';
+import { RateLimitTracker, RateLimitError, RateLimitState } from './rateLimit';
+import { DetailsPanel } from './detailsPanel';
+import { ResponseCache } from './responseCache';
+
+interface RepositoryCache {
+    /** Last dataLoaded message, kept current as pages and refreshes arrive */
+    data?: any;
+    local?: any;
+    ciStatuses: Record<number, CIStatus>;
+    issuesState: IssueStateFilter;
+    prsState: PullRequestStateFilter;
+}
+
+interface ResolvedRepository {
+    workspacePath: string;
+    repoInfo: RepositoryInfo;
+    /** API calls for this repository go through a service bound to its host */
+    github: GitHubService;
+}
 
 export class devDashProvider {
     public static readonly viewType = 'devDash.view';
     private static _currentPanel: vscode.WebviewPanel | undefined;
+    private static _currentProvider: devDashProvider | undefined;
+    private static readonly _detailsMessageTypes = new Set([
+        'loadPRDetails', 'loadPRComments', 'loadPRReviews', 'loadPRFiles', 'loadPRChecks', 'openFileDiff',
+        'loadReviewThreads', 'replyToThread', 'createLineComment', 'setThreadResolved',
+        'submitPRReview', 'addPRComment', 'copyPRContent',
+        'loadIssueDetails', 'addIssueComment', 'loadIssueEditOptions', 'updateIssue',
+        'loadLabels', 'setLabels', 'previewMarkdown'
+    ]);
+    /** Serves details panels opened while the dashboard itself is closed */
+    private static _detailsProvider: devDashProvider | undefined;
 
     private githubService: GitHubService;
+    private _issuesState: IssueStateFilter = 'open';
+    private _prsState: PullRequestStateFilter = 'open';
+    private _repositories: WorkspaceRepository[] | undefined;
+    private _activeRepoPath: string | undefined;
+    private _repoCache = new Map<string, RepositoryCache>();
+    /** Details panels opened from My Work show items from other repositories */
+    private _detailsRepositories = new WeakMap<vscode.Webview, RepositoryInfo>();
+    private _rateLimitedUntil: number | undefined;
+
+    constructor(private readonly _extensionUri: vscode.Uri, workspaceState?: vscode.Memento) {
+        this.githubService = new GitHubService(workspaceState);
+    }
+
+    /** Label names, compared case-insensitively, that mark a card as high, medium or low priority */
+    private static _getPriorityLabels(): Record<'high' | 'medium' | 'low', string[]> {
+        const configured = vscode.workspace.getConfiguration('devDash').get<Record<string, string[]>>('priorityLabels', {});
+        return {
+            high: configured.high || [],
+            medium: configured.medium || [],
+            low: configured.low || []
+        };
+    }
+
+    public static async selectRemote(extensionUri: vscode.Uri, workspaceState?: vscode.Memento) {
+        devDashProvider.createOrShow(extensionUri, workspaceState);
+        await devDashProvider._currentProvider?._pickRemote();
+    }
 
-    constructor(private readonly _extensionUri: vscode.Uri) {
-        this.githubService = new GitHubService();
+    /** Opens the details panel for an issue or PR from another repository, e.g. from a notification */
+    public static showItemDetails(extensionUri: vscode.Uri, workspaceState: vscode.Memento | undefined, item: any) {
+        if (!devDashProvider._currentProvider && !devDashProvider._detailsProvider) {
+            devDashProvider._detailsProvider = new devDashProvider(extensionUri, workspaceState);
+        }
+        const provider = devDashProvider._currentProvider || devDashProvider._detailsProvider!;
+        const [processed] = provider._processItems([item]);
+        return provider._viewItemDetails(processed);
     }
 
-    public static createOrShow(extensionUri: vscode.Uri) {
+    public static createOrShow(extensionUri: vscode.Uri, workspaceState?: vscode.Memento) {
         debugChannel.log('Creating or showing GitHub Viewer panel');
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
@@ -38,13 +103,36 @@ export class devDashProvider {
         );
 
         devDashProvider._currentPanel = panel;
-        const provider = new devDashProvider(extensionUri);
+        const provider = new devDashProvider(extensionUri, workspaceState);
+        devDashProvider._currentProvider = provider;
         provider._update(panel.webview, extensionUri);
         debugChannel.info('GitHub Viewer panel created successfully');
 
+        const foldersListener = vscode.workspace.onDidChangeWorkspaceFolders(() => provider._onWorkspaceFoldersChanged());
+        const rateLimitListener = RateLimitTracker.getInstance().onDidChange(state => provider._sendRateLimit(state));
+        const limitListener = RateLimitTracker.getInstance().onDidLimit(error => provider._onRateLimited(error));
+        const configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('devDash.priorityLabels')) {
+                provider._sendMessage({ type: 'priorityLabelsChanged', priorityLabels: devDashProvider._getPriorityLabels() });
+            }
+        });
+
+        // Teammates' shared views arrive through git, so follow edits to the committed file
+        const viewsWatcher = vscode.workspace.createFileSystemWatcher(`**/${SHARED_VIEWS_FILE.split(path.sep).join('/')}`);
+        viewsWatcher.onDidChange(() => provider._loadSavedViews());
+        viewsWatcher.onDidCreate(() => provider._loadSavedViews());
+        viewsWatcher.onDidDelete(() => provider._loadSavedViews());
+
         panel.onDidDispose(() => {
             debugChannel.log('GitHub Viewer panel disposed');
             devDashProvider._currentPanel = undefined;
+            devDashProvider._currentProvider = undefined;
+            foldersListener.dispose();
+            rateLimitListener.dispose();
+            limitListener.dispose();
+            configListener.dispose();
+            viewsWatcher.dispose();
+            provider.githubService.dispose();
         }, null);
 
         panel.webview.onDidReceiveMessage(
@@ -55,17 +143,50 @@ export class devDashProvider {
         );
     }
 
-    private async _handleMessage(message: any) {
+    private async _handleMessage(message: any, webview?: vscode.Webview) {
         debugChannel.log('Received message from webview', { type: message.type });
+        try {
+            await this._dispatchMessage(message, webview);
+        } catch (error) {
+            if (error instanceof RateLimitError) {
+                this._onRateLimited(error);
+                return;
+            }
+            throw error;
+        }
+    }
+
+    /** Details panels render third-party content, so they only reach the requests their view makes */
+    private async _handleDetailsMessage(message: any, webview: vscode.Webview) {
+        if (!devDashProvider._detailsMessageTypes.has(message?.type)) {
+            debugChannel.warn('Ignoring message from details view', { type: message?.type });
+            return;
+        }
+        await this._handleMessage(message, webview);
+    }
+
+    private async _dispatchMessage(message: any, webview?: vscode.Webview) {
         switch (message.type) {
             case 'loadData':
-                await this._loadGitHubData();
+                await this._loadGitHubData(message.issuesState, message.prsState);
+                break;
+            case 'selectRemote':
+                await this._selectRemote(message.remote);
+                break;
+            case 'selectRepository':
+                await this._selectRepository(message.path);
                 break;
             case 'refreshIssues':
-                await this._refreshIssues();
+                await this._refreshIssues(message.state);
                 break;
             case 'refreshPRs':
-                await this._refreshPRs();
+                await this._refreshPRs(message.state);
+                break;
+            case 'loadMoreIssues':
+                await this._loadMoreIssues(message.page);
+                break;
+            case 'loadMorePRs':
+                await this._loadMorePRs(message.page);
                 break;
             case 'viewDetails':
                 await this._viewItemDetails(message.item);
@@ -82,6 +203,12 @@ export class devDashProvider {
             case 'loadCollaborators':
                 await this._loadCollaborators();
                 break;
+            case 'prepareCreatePR':
+                await this._prepareCreatePR();
+                break;
+            case 'createPR':
+                await this._createPR(message.options, message.linkedIssue);
+                break;
             case 'checkoutIssueBranch':
                 await this._checkoutIssueBranch(message.issueNumber, message.branchName);
                 break;
@@ -91,48 +218,184 @@ export class devDashProvider {
             case 'loadActivity':
                 await this._loadActivity();
                 break;
+            case 'loadMyWork':
+                await this._loadMyWork();
+                break;
+            case 'loadNotifications':
+                await this._loadNotifications(message.allRepositories, message.includeRead);
+                break;
+            case 'openNotification':
+                await this._openNotification(message.notification);
+                break;
+            case 'markNotificationRead':
+                await this._updateNotification(message.threadId, 'read');
+                break;
+            case 'markNotificationDone':
+                await this._updateNotification(message.threadId, 'done');
+                break;
+            case 'unsubscribeNotification':
+                await this._updateNotification(message.threadId, 'unsubscribed');
+                break;
             case 'checkoutPRGitHub':
                 await this._checkoutPRGitHubStyle(message.prNumber);
                 break;
+            case 'loadPRBranchStates':
+                await this._loadPRBranchStates(message.prs);
+                break;
+            case 'switchPRBranch':
+                await this._switchPRBranch(message.prNumber, message.branch);
+                break;
+            case 'updatePRBranch':
+                await this._updatePRBranch(message.prNumber, message.branch);
+                break;
             case 'loadPRDetails':
-                await this._loadPRDetails(message.prNumber);
+                await this._loadPRDetails(message.prNumber, webview);
                 break;
             case 'loadPRComments':
-                await this._loadPRComments(message.prNumber);
+                await this._loadPRComments(message.prNumber, webview);
                 break;
             case 'addPRComment':
-                await this._addPRComment(message.prNumber, message.body);
+                await this._addPRComment(message.prNumber, message.body, webview);
+                break;
+            case 'loadPRReviews':
+                await this._loadPRReviews(message.prNumber, webview);
+                break;
+            case 'loadReviewThreads':
+                await this._loadReviewThreads(message.prNumber, webview);
+                break;
+            case 'replyToThread':
+                await this._replyToThread(message.prNumber, message.commentId, message.body, webview);
+                break;
+            case 'createLineComment':
+                await this._createLineComment(message.prNumber, message.comment, webview);
+                break;
+            case 'setThreadResolved':
+                await this._setThreadResolved(message.prNumber, message.threadId, message.resolved, webview);
+                break;
+            case 'loadPRFiles':
+                await this._loadPRFiles(message.prNumber, webview);
+                break;
+            case 'openFileDiff':
+                await this._openFileDiff(message.prNumber, message.file, webview);
+                break;
+            case 'loadPRChecks':
+                await this._loadPRChecks(message.prNumber, webview);
+                break;
+            case 'submitPRReview':
+                await this._submitPRReview(message.prNumber, message.event, message.body, webview);
                 break;
             case 'copyPRContent':
-                await this._copyPRContent(message.prNumber);
+                await this._copyPRContent(message.prNumber, webview);
+                break;
+            case 'loadIssueDetails':
+                await this._loadIssueDetails(message.issueNumber, webview);
+                break;
+            case 'addIssueComment':
+                await this._addIssueComment(message.issueNumber, message.body, webview);
+                break;
+            case 'loadIssueEditOptions':
+                await this._loadIssueEditOptions(webview);
+                break;
+            case 'updateIssue':
+                await this._updateIssue(message.issueNumber, message.changes, webview);
+                break;
+            case 'loadSavedViews':
+                await this._loadSavedViews();
+                break;
+            case 'saveView':
+                await this._saveView(message.view);
+                break;
+            case 'deleteView':
+                await this._deleteView(message.name, message.shared);
+                break;
+            case 'shareView':
+                await this._shareView(message.name);
+                break;
+            case 'searchItems':
+                await this._searchItems(message.kind, message.query);
+                break;
+            case 'loadLabels':
+                await this._loadLabels(webview);
+                break;
+            case 'loadMilestones':
+                await this._loadMilestones();
+                break;
+            case 'setLabels':
+                await this._setLabels(message.number, message.labels, webview);
+                break;
+            case 'createLabel':
+                await this._manageLabel('create', message.name, message.changes);
+                break;
+            case 'updateLabel':
+                await this._manageLabel('update', message.name, message.changes);
+                break;
+            case 'deleteLabel':
+                await this._manageLabel('delete', message.name);
+                break;
+            case 'previewMarkdown':
+                this._sendMessage({
+                    type: 'markdownPreview',
+                    target: message.target,
+                    html: this.githubService.renderMarkdown(message.text || '')
+                }, webview);
+                break;
+            case 'checkMergeability':
+                await this._checkMergeability(message.prNumber);
+                break;
+            case 'mergePR':
+                await this._mergePR(message.prNumber, message.options);
+                break;
+            case 'setPRState':
+                await this._setPRState(message.prNumber, message.state);
+                break;
+            case 'loadActions':
+                await this._loadActions(message.workflowId);
+                break;
+            case 'loadRunJobs':
+                await this._loadRunJobs(message.runId);
+                break;
+            case 'viewJobLogs':
+                await this._viewJobLogs(message.jobId, message.jobName);
+                break;
+            case 'rerunFailedJobs':
+                await this._rerunFailedJobs(message.runId, message.workflowId);
+                break;
+            case 'cancelRun':
+                await this._cancelRun(message.runId, message.workflowId);
+                break;
+            case 'loadDispatchInputs':
+                await this._loadDispatchInputs(message.workflowId, message.workflowPath);
+                break;
+            case 'dispatchWorkflow':
+                await this._dispatchWorkflow(message.workflowId, message.ref, message.inputs);
                 break;
             default:
                 debugChannel.warn('Unknown message type received', message.type);
         }
     }
 
-    private async _loadGitHubData() {
+    private async _loadGitHubData(issuesState?: IssueStateFilter, prsState?: PullRequestStateFilter) {
         try {
             debugChannel.log('Loading GitHub data...');
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found');
-                vscode.window.showErrorMessage('No workspace folder found');
+            this._issuesState = issuesState || this._issuesState;
+            this._prsState = prsState || this._prsState;
+            const resolved = await this._resolveRepository(undefined, true);
+            if (!resolved) {
                 return;
             }
+            const { workspacePath, repoInfo, github } = resolved;
+            await this._sendRepositories();
+            await this._sendRemotes(workspacePath);
 
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
-                vscode.window.showErrorMessage('Not a Git repository or no GitHub remote found!');
-                return;
+            if (!this._repoCache.get(workspacePath)?.data) {
+                await this._paintFromCache(repoInfo);
             }
 
             // Check repository access first
-            const accessCheck = await this.githubService.checkRepositoryAccess(repoInfo.owner, repoInfo.repo);
+            const accessCheck = await github.checkRepositoryAccess(repoInfo.owner, repoInfo.repo);
             if (!accessCheck.hasAccess) {
                 debugChannel.warn('No access to repository', { owner: repoInfo.owner, repo: repoInfo.repo });
-                const user = await this.githubService.getCurrentUser();
+                const user = await github.getCurrentUser();
                 this._sendMessage({
                     type: 'accessDenied',
                     user,
@@ -142,39 +405,42 @@ export class devDashProvider {
             }
 
             const [user, issues, prs, stats] = await Promise.all([
-                this.githubService.getCurrentUser(),
-                this.githubService.getIssues(repoInfo.owner, repoInfo.repo),
-                this.githubService.getPullRequests(repoInfo.owner, repoInfo.repo),
-                this.githubService.getRepositoryStats(repoInfo.owner, repoInfo.repo)
+                github.getCurrentUser(),
+                github.getIssues(repoInfo.owner, repoInfo.repo, 1, this._issuesState),
+                github.getPullRequests(repoInfo.owner, repoInfo.repo, 1, this._prsState),
+                github.getRepositoryStats(repoInfo.owner, repoInfo.repo)
             ]);
 
-            // Add markdown rendering to issues and PRs
-            const processedIssues = issues.map(issue => ({
-                ...issue,
-                body_html: this.githubService.renderMarkdown(issue.body || ''),
-                body_preview: this._createPreview(issue.body || '')
-            }));
-
-            const processedPRs = prs.map(pr => ({
-                ...pr,
-                body_html: this.githubService.renderMarkdown(pr.body || ''),
-                body_preview: this._createPreview(pr.body || '')
-            }));
+            if (workspacePath !== this._activeRepoPath) {
+                // The user switched repositories while this one was loading
+                return;
+            }
 
+            const processedIssues = this._processItems(issues.items);
+            const processedPRs = this._processItems(prs.items);
             this._sendMessage({
                 type: 'dataLoaded',
                 user,
                 issues: processedIssues,
+                issuesPage: issues.page,
+                issuesHasMore: issues.hasMore,
                 prs: processedPRs,
+                prsPage: prs.page,
+                prsHasMore: prs.hasMore,
                 stats,
                 repository: `${repoInfo.owner}/${repoInfo.repo}`
             });
+            DetailsPanel.syncItems([...processedIssues, ...processedPRs], repoInfo);
             debugChannel.info('GitHub data loaded and sent to webview');
+
+            await this._loadPRCIStatuses(github, repoInfo.owner, repoInfo.repo, prs.items);
         } catch (error: any) {
             debugChannel.error('Error loading GitHub data', error as Error);
             
+            if (error instanceof RateLimitError) {
+                this._onRateLimited(error);
             // Handle authentication errors specifically
-            if (error.message?.includes('authentication') || error.status === 401) {
+            } else if (error.message?.includes('authentication') || error.status === 401) {
                 this._sendMessage({
                     type: 'authenticationError',
                     message: 'GitHub authentication failed. Please try switching accounts.'
@@ -193,27 +459,325 @@ export class devDashProvider {
         }
     }
 
-    private async _refreshIssues() {
+    private async _getRepositories(): Promise<WorkspaceRepository[]> {
+        if (!this._repositories) {
+            const folderPaths = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+            this._repositories = await this.githubService.discoverRepositories(folderPaths);
+        }
+        return this._repositories;
+    }
+
+    /** Path of the repository the dashboard shows, defaulting to the one holding the active editor */
+    private async _getRepositoryPath(): Promise<string | undefined> {
+        if (this._activeRepoPath) {
+            return this._activeRepoPath;
+        }
+
+        const repositories = await this._getRepositories();
+        const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const containing = activeFile
+            ? repositories
+                .filter(repository => activeFile.startsWith(repository.path + path.sep))
+                .sort((a, b) => b.path.length - a.path.length)[0]
+            : undefined;
+
+        // Fall back to the first folder so git-only features still work without a GitHub remote
+        this._activeRepoPath = containing?.path || repositories[0]?.path || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return this._activeRepoPath;
+    }
+
+    /** Repository a request targets: the item's own repository for pinned details panels, otherwise the active one */
+    private async _getRepositoryInfo(workspacePath: string, webview?: vscode.Webview): Promise<RepositoryInfo | null> {
+        const pinned = webview ? this._detailsRepositories.get(webview) : undefined;
+        if (pinned) {
+            return pinned;
+        }
+        return this.githubService.getRepositoryInfo(workspacePath);
+    }
+
+    /**
+     * Workspace path and GitHub repository a request works on, with a service bound to that
+     * repository's host, or null when there is none. Requests the user started pass notify so a
+     * missing repository is reported rather than silently ignored.
+     */
+    private async _resolveRepository(webview?: vscode.Webview, notify = false): Promise<ResolvedRepository | null> {
+        const workspacePath = await this._getRepositoryPath();
+        if (!workspacePath) {
+            debugChannel.warn('No workspace folder found');
+            if (notify) {
+                vscode.window.showErrorMessage('No workspace folder found');
+            }
+            return null;
+        }
+
+        const repoInfo = await this._getRepositoryInfo(workspacePath, webview);
+        if (!repoInfo) {
+            debugChannel.warn('No GitHub repository info found');
+            if (notify) {
+                vscode.window.showErrorMessage('Not a Git repository or no GitHub remote found!');
+            }
+            return null;
+        }
+        return { workspacePath, repoInfo, github: this.githubService.forHost(repoInfo.host) };
+    }
+
+    /** Service for requests that are not about one repository, on the host of the repository the dashboard shows */
+    private async _getActiveGitHub(): Promise<GitHubService> {
+        const workspacePath = await this._getRepositoryPath();
+        const repoInfo = workspacePath ? await this.githubService.getRepositoryInfo(workspacePath) : null;
+        return this.githubService.forHost(repoInfo?.host);
+    }
+
+    private async _sendRepositories() {
+        const repositories = await this._getRepositories();
+        this._sendMessage({
+            type: 'repositoriesLoaded',
+            repositories,
+            selected: this._activeRepoPath
+        });
+    }
+
+    private async _selectRepository(repositoryPath: string) {
+        try {
+            debugChannel.log('Selecting repository', { repositoryPath });
+            if (repositoryPath === this._activeRepoPath) {
+                return;
+            }
+            // The path comes from the webview and is handed to git, so it must be one the dashboard discovered
+            const repositories = await this._getRepositories();
+            if (!repositories.some(repository => repository.path === repositoryPath)) {
+                debugChannel.warn('Ignoring selection of an unknown repository', { repositoryPath });
+                return;
+            }
+            this._activeRepoPath = repositoryPath;
+            this._sendMessage({ type: 'repositoryChanged' });
+
+            const cache = this._repoCache.get(repositoryPath);
+            if (cache?.data && cache.issuesState === this._issuesState && cache.prsState === this._prsState) {
+                debugChannel.info('Showing cached repository data', { repositoryPath });
+                // Replaying dataLoaded resets the cached CI statuses, so take them first
+                const { data, ciStatuses } = cache;
+                await this._sendRepositories();
+                await this._sendRemotes(repositoryPath);
+                this._sendMessage(data);
+                this._sendMessage({ type: 'prCIStatusLoaded', statuses: ciStatuses });
+            } else {
+                await this._loadGitHubData();
+            }
+
+            if (cache?.local) {
+                this._sendMessage(cache.local);
+            } else {
+                await this._loadLocalData();
+            }
+        } catch (error) {
+            debugChannel.error('Error selecting repository', error as Error);
+            vscode.window.showErrorMessage(`Error switching repository: ${error}`);
+        }
+    }
+
+    private async _onWorkspaceFoldersChanged() {
+        debugChannel.log('Workspace folders changed, rediscovering repositories');
+        this._repositories = undefined;
+        const repositories = await this._getRepositories();
+        if (this._activeRepoPath && !repositories.some(repository => repository.path === this._activeRepoPath)) {
+            this._repoCache.delete(this._activeRepoPath);
+            this._activeRepoPath = undefined;
+            this._sendMessage({ type: 'repositoryChanged' });
+            await this._loadGitHubData();
+        } else {
+            await this._sendRepositories();
+        }
+    }
+
+    /** Mirrors main panel data into the active repository's cache so switching back is instant */
+    private _cacheMessage(message: any) {
+        if (!this._activeRepoPath) {
+            return;
+        }
+
+        let cache = this._repoCache.get(this._activeRepoPath);
+        if (!cache) {
+            cache = { ciStatuses: {}, issuesState: this._issuesState, prsState: this._prsState };
+            this._repoCache.set(this._activeRepoPath, cache);
+        }
+
+        switch (message.type) {
+            case 'dataLoaded':
+                cache.data = { ...message };
+                cache.ciStatuses = {};
+                cache.issuesState = this._issuesState;
+                cache.prsState = this._prsState;
+                break;
+            case 'issuesRefreshed':
+                if (cache.data) {
+                    cache.data = { ...cache.data, issues: message.issues, issuesPage: message.page, issuesHasMore: message.hasMore };
+                    cache.issuesState = this._issuesState;
+                }
+                break;
+            case 'prsRefreshed':
+                if (cache.data) {
+                    cache.data = { ...cache.data, prs: message.prs, prsPage: message.page, prsHasMore: message.hasMore };
+                    cache.prsState = this._prsState;
+                    cache.ciStatuses = {};
+                }
+                break;
+            case 'issuesPageLoaded':
+                if (cache.data) {
+                    cache.data = { ...cache.data, issues: cache.data.issues.concat(message.issues), issuesPage: message.page, issuesHasMore: message.hasMore };
+                }
+                break;
+            case 'prsPageLoaded':
+                if (cache.data) {
+                    cache.data = { ...cache.data, prs: cache.data.prs.concat(message.prs), prsPage: message.page, prsHasMore: message.hasMore };
+                }
+                break;
+            case 'prCIStatusLoaded':
+                Object.assign(cache.ciStatuses, message.statuses);
+                break;
+            case 'itemLabelsUpdated':
+                if (cache.data && cache.data.repository === message.repository) {
+                    const withLabels = (item: any) => item.number === message.number ? { ...item, labels: message.labels } : item;
+                    cache.data = { ...cache.data, issues: cache.data.issues.map(withLabels), prs: cache.data.prs.map(withLabels) };
+                }
+                break;
+            case 'localDataLoaded':
+                cache.local = message;
+                break;
+        }
+    }
+
+    /** Every request refused while limited reports the same window, so each window is announced once */
+    private _onRateLimited(error: RateLimitError) {
+        if (error.until === this._rateLimitedUntil) {
+            return;
+        }
+        this._rateLimitedUntil = error.until;
+        this._sendMessage({
+            type: 'rateLimited',
+            until: error.until,
+            message: error.message
+        });
+        vscode.window.showWarningMessage(error.message);
+    }
+
+    private _sendRateLimit(state: RateLimitState) {
+        this._sendMessage({
+            type: 'rateLimitUpdated',
+            state,
+            cache: ResponseCache.getInstance().getStats()
+        });
+    }
+
+    private async _sendRemotes(workspacePath: string) {
+        const [remotes, selected] = await Promise.all([
+            this.githubService.getGitHubRemotes(workspacePath),
+            this.githubService.getSelectedRemote(workspacePath)
+        ]);
+        this._sendMessage({
+            type: 'remotesLoaded',
+            remotes,
+            selected: selected?.name
+        });
+    }
+
+    private async _selectRemote(remoteName: string) {
         try {
-            debugChannel.log('Refreshing issues...');
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const workspacePath = await this._getRepositoryPath();
+            if (!workspacePath) {
                 debugChannel.warn('No workspace folder found');
                 return;
             }
 
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
+            await this.githubService.setSelectedRemote(workspacePath, remoteName);
+            // Cached data and the repository list belong to the previous remote
+            this._repoCache.delete(workspacePath);
+            this._repositories = undefined;
+            this._sendMessage({ type: 'remoteChanged' });
+            await this._loadGitHubData();
+        } catch (error) {
+            debugChannel.error('Error selecting remote', error as Error);
+            vscode.window.showErrorMessage(`Error switching remote: ${error}`);
+        }
+    }
+
+    private async _pickRemote() {
+        const workspacePath = await this._getRepositoryPath();
+        if (!workspacePath) {
+            vscode.window.showErrorMessage('No workspace folder found');
+            return;
+        }
+
+        const remotes = await this.githubService.getGitHubRemotes(workspacePath);
+        if (remotes.length === 0) {
+            vscode.window.showErrorMessage('Not a Git repository or no GitHub remote found!');
+            return;
+        }
+
+        const selected = await this.githubService.getSelectedRemote(workspacePath);
+        const choice = await vscode.window.showQuickPick(remotes.map(remote => ({
+            label: remote.name,
+            description: `${remote.owner}/${remote.repo}${remote.host !== 'github.com' ? ` on ${remote.host}` : ''}`,
+            detail: remote.url,
+            picked: remote.name === selected?.name
+        })), { placeHolder: 'Select the remote the dashboard should show' });
+
+        if (choice) {
+            await this._selectRemote(choice.label);
+        }
+    }
+
+    /** Shows persisted responses from the last session while the live requests revalidate them */
+    private async _paintFromCache(repoInfo: RepositoryInfo) {
+        try {
+            const github = this.githubService.forHost(repoInfo.host);
+            const [user, issues, prs, stats] = await github.readFromCache(() => Promise.all([
+                github.getCurrentUser(),
+                github.getIssues(repoInfo.owner, repoInfo.repo, 1, this._issuesState),
+                github.getPullRequests(repoInfo.owner, repoInfo.repo, 1, this._prsState),
+                github.getRepositoryStats(repoInfo.owner, repoInfo.repo)
+            ]));
+
+            this._sendMessage({
+                type: 'dataLoaded',
+                user,
+                issues: this._processItems(issues.items),
+                issuesPage: issues.page,
+                issuesHasMore: issues.hasMore,
+                prs: this._processItems(prs.items),
+                prsPage: prs.page,
+                prsHasMore: prs.hasMore,
+                stats,
+                repository: `${repoInfo.owner}/${repoInfo.repo}`,
+                fromCache: true
+            });
+            debugChannel.info('Painted dashboard from response cache');
+        } catch (error) {
+            // Nothing cached for this repository yet; the live load fills the dashboard
+            debugChannel.log('No cached dashboard data', { error: `${error}` });
+        }
+    }
+
+    private async _refreshIssues(state?: IssueStateFilter) {
+        try {
+            debugChannel.log('Refreshing issues...', { state });
+            this._issuesState = state || this._issuesState;
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
                 return;
             }
+            const { repoInfo, github } = resolved;
 
-            const issues = await this.githubService.getIssues(repoInfo.owner, repoInfo.repo);
+            const issues = await github.getIssues(repoInfo.owner, repoInfo.repo, 1, this._issuesState);
+            const processedIssues = this._processItems(issues.items);
             
             this._sendMessage({
                 type: 'issuesRefreshed',
-                issues
+                issues: processedIssues,
+                page: issues.page,
+                hasMore: issues.hasMore
             });
+            DetailsPanel.syncItems(processedIssues, repoInfo);
             debugChannel.info('Issues refreshed and sent to webview');
         } catch (error) {
             debugChannel.error('Error refreshing issues', error as Error);
@@ -221,61 +785,142 @@ export class devDashProvider {
         }
     }
 
-    private async _refreshPRs() {
+    private async _refreshPRs(state?: PullRequestStateFilter) {
         try {
-            debugChannel.log('Refreshing pull requests...');
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found');
+            debugChannel.log('Refreshing pull requests...', { state });
+            this._prsState = state || this._prsState;
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
                 return;
             }
+            const { repoInfo, github } = resolved;
 
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
-                return;
-            }
-
-            const prs = await this.githubService.getPullRequests(repoInfo.owner, repoInfo.repo);
+            const prs = await github.getPullRequests(repoInfo.owner, repoInfo.repo, 1, this._prsState);
+            const processedPRs = this._processItems(prs.items);
             
             this._sendMessage({
                 type: 'prsRefreshed',
-                prs
+                prs: processedPRs,
+                page: prs.page,
+                hasMore: prs.hasMore
             });
+            DetailsPanel.syncItems(processedPRs, repoInfo);
             debugChannel.info('Pull requests refreshed and sent to webview');
+
+            await this._loadPRCIStatuses(github, repoInfo.owner, repoInfo.repo, prs.items);
         } catch (error) {
             debugChannel.error('Error refreshing pull requests', error as Error);
             vscode.window.showErrorMessage(`Error refreshing pull requests: ${error}`);
         }
     }
 
+    private async _loadMoreIssues(page: number) {
+        try {
+            debugChannel.log('Loading more issues...', { page });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const issues = await github.getIssues(repoInfo.owner, repoInfo.repo, page, this._issuesState);
+
+            this._sendMessage({
+                type: 'issuesPageLoaded',
+                issues: this._processItems(issues.items),
+                page: issues.page,
+                hasMore: issues.hasMore
+            });
+            debugChannel.info(`Issues page ${page} loaded and sent to webview`);
+        } catch (error) {
+            debugChannel.error('Error loading more issues', error as Error);
+            this._sendMessage({ type: 'loadMoreFailed', kind: 'issues' });
+            vscode.window.showErrorMessage(`Error loading more issues: ${error}`);
+        }
+    }
+
+    private async _loadMorePRs(page: number) {
+        try {
+            debugChannel.log('Loading more pull requests...', { page });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const prs = await github.getPullRequests(repoInfo.owner, repoInfo.repo, page, this._prsState);
+
+            this._sendMessage({
+                type: 'prsPageLoaded',
+                prs: this._processItems(prs.items),
+                page: prs.page,
+                hasMore: prs.hasMore
+            });
+            debugChannel.info(`Pull requests page ${page} loaded and sent to webview`);
+
+            await this._loadPRCIStatuses(github, repoInfo.owner, repoInfo.repo, prs.items);
+        } catch (error) {
+            debugChannel.error('Error loading more pull requests', error as Error);
+            this._sendMessage({ type: 'loadMoreFailed', kind: 'prs' });
+            vscode.window.showErrorMessage(`Error loading more pull requests: ${error}`);
+        }
+    }
+
+    private async _loadPRCIStatuses(github: GitHubService, owner: string, repo: string, prs: any[]) {
+        try {
+            // One GraphQL request per page of PRs rather than two REST calls for each of them
+            const statuses = await github.getCIStatuses(owner, repo, prs.map(pr => pr.number));
+            this._sendMessage({
+                type: 'prCIStatusLoaded',
+                statuses
+            });
+        } catch (error) {
+            debugChannel.warn('Could not load CI statuses', error as Error);
+        }
+    }
+
     private async _viewItemDetails(item: any) {
         debugChannel.log('Viewing item details', { type: item.type, number: item.number });
-        const panel = vscode.window.createWebviewPanel(
-            'githubItemDetails',
-            `${item.type === 'issue' ? 'Issue' : 'PR'} #${item.number}`,
-            vscode.ViewColumn.Two,
-            {
-                enableScripts: true
-            }
-        );
+        let repository: RepositoryInfo | null = item.repository;
+        if (!repository) {
+            const workspacePath = await this._getRepositoryPath();
+            repository = workspacePath ? await this.githubService.getRepositoryInfo(workspacePath) : null;
+        }
+        if (!repository) {
+            debugChannel.warn('No GitHub repository info found for details panel');
+            vscode.window.showErrorMessage('Not a Git repository or no GitHub remote found!');
+            return;
+        }
 
-        panel.webview.html = this._getDetailsHtml(item);
+        // Replies to requests from the details view go back to that view, not the dashboard
+        const detailsPanel = DetailsPanel.show(
+            item,
+            repository,
+            details => this._getDetailsHtml(details),
+            (message, webview) => this._handleDetailsMessage(message, webview)
+        );
+        // Pinned so the panel keeps working on its item after the dashboard switches repository
+        this._detailsRepositories.set(detailsPanel.webview, detailsPanel.repository);
     }
 
     private async _checkoutPR(prNumber: number) {
         try {
             debugChannel.log('Attempting to checkout PR', { prNumber });
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const workspacePath = await this._getRepositoryPath();
+            if (!workspacePath) {
                 debugChannel.warn('No workspace folder found for PR checkout');
                 vscode.window.showErrorMessage('No workspace folder found');
                 return;
             }
 
-            await this.githubService.checkoutPR(workspaceFolder.uri.fsPath, prNumber);
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Checking out PR #${prNumber}...`,
+                cancellable: true
+            }, (progress, token) => this.githubService.checkoutPR(workspacePath, prNumber, token));
             debugChannel.info(`Successfully checked out PR #${prNumber}`);
             vscode.window.showInformationMessage(`Checked out PR #${prNumber}`);
+            this._sendMessage({ type: 'prBranchesChanged' });
         } catch (error) {
             debugChannel.error('Error checking out PR', error as Error);
             vscode.window.showErrorMessage(`Error checking out PR: ${error}`);
@@ -285,22 +930,14 @@ export class devDashProvider {
     private async _createIssue(title: string, body?: string, labels?: string[], assignees?: string[]) {
         try {
             debugChannel.log('Creating new issue', { title });
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found');
-                vscode.window.showErrorMessage('No workspace folder found');
-                return;
-            }
-
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
-                vscode.window.showErrorMessage('Not a Git repository or no GitHub remote found!');
+            const resolved = await this._resolveRepository(undefined, true);
+            if (!resolved) {
                 return;
             }
+            const { repoInfo, github } = resolved;
 
             // Check if user has permission to create issues
-            const accessCheck = await this.githubService.checkRepositoryAccess(repoInfo.owner, repoInfo.repo);
+            const accessCheck = await github.checkRepositoryAccess(repoInfo.owner, repoInfo.repo);
             if (!accessCheck.hasAccess || (accessCheck.permissions.permission === 'read')) {
                 debugChannel.warn('Insufficient permissions to create issues', { 
                     owner: repoInfo.owner, 
@@ -311,7 +948,7 @@ export class devDashProvider {
                 return;
             }
 
-            const issue = await this.githubService.createIssue(repoInfo.owner, repoInfo.repo, title, body, labels, assignees);
+            const issue = await github.createIssue(repoInfo.owner, repoInfo.repo, title, body, labels, assignees);
             debugChannel.info(`Issue created successfully: #${issue.number}`);
             
             this._sendMessage({
@@ -328,52 +965,203 @@ export class devDashProvider {
         }
     }
 
-    private async _loadLocalData() {
+    private async _prepareCreatePR() {
         try {
-            debugChannel.log('Loading local git data...');
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found');
-                vscode.window.showErrorMessage('No workspace folder found');
+            debugChannel.log('Preparing pull request form');
+            const resolved = await this._resolveRepository(undefined, true);
+            if (!resolved) {
                 return;
             }
+            const { workspacePath, repoInfo, github } = resolved;
 
-            const [stashes, changes] = await Promise.all([
-                this.githubService.getGitStashes(workspaceFolder.uri.fsPath),
-                this.githubService.getUncommittedChanges(workspaceFolder.uri.fsPath)
+            const [branchStatus, defaultBranch, collaborators] = await Promise.all([
+                github.getBranchStatus(workspacePath, repoInfo),
+                github.getDefaultBranch(repoInfo.owner, repoInfo.repo),
+                github.getRepositoryCollaborators(repoInfo.owner, repoInfo.repo)
             ]);
+            const template = github.getPullRequestTemplate(workspacePath);
 
             this._sendMessage({
-                type: 'localDataLoaded',
-                stashes,
-                changes
+                type: 'createPRPrepared',
+                branchStatus,
+                defaultBranch,
+                collaborators,
+                template
             });
-            debugChannel.info('Local git data loaded and sent to webview');
         } catch (error) {
-            debugChannel.error('Error loading local data', error as Error);
-            vscode.window.showErrorMessage(`Error loading local data: ${error}`);
+            debugChannel.error('Error preparing pull request form', error as Error);
+            vscode.window.showErrorMessage(`Error preparing pull request: ${error}`);
         }
     }
 
-    private async _loadActivity() {
+    private async _createPR(options: NewPullRequest, linkedIssue?: number) {
         try {
-            debugChannel.log('Loading recent activity...');
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found');
-                vscode.window.showErrorMessage('No workspace folder found');
+            debugChannel.log('Creating new pull request', { title: options.title, head: options.head, base: options.base });
+            const resolved = await this._resolveRepository(undefined, true);
+            if (!resolved) {
                 return;
             }
+            const { repoInfo, github } = resolved;
 
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
-                vscode.window.showErrorMessage('Not a Git repository or no GitHub remote found!');
-                return;
-            }
+            // A closing keyword links the issue so merging the PR closes it
+            const body = linkedIssue
+                ? `${options.body ? options.body + '\n\n' : ''}Closes #${linkedIssue}`
+                : options.body;
 
-            const activity = await this.githubService.getRecentActivity(repoInfo.owner, repoInfo.repo);
-            
+            const { pr, warnings } = await github.createPullRequest(repoInfo.owner, repoInfo.repo, { ...options, body });
+            debugChannel.info(`Pull request created successfully: #${pr.number}`);
+
+            await this._refreshPRs();
+            const selection = warnings.length > 0
+                ? await vscode.window.showWarningMessage(`Pull request #${pr.number} was created, but ${warnings.join(' and ')}.`, 'Open on GitHub')
+                : await vscode.window.showInformationMessage(`Pull request #${pr.number} created successfully!`, 'Open on GitHub');
+            if (selection === 'Open on GitHub') {
+                vscode.env.openExternal(vscode.Uri.parse(pr.html_url));
+            }
+        } catch (error: any) {
+            debugChannel.error('Error creating pull request', error as Error);
+            vscode.window.showErrorMessage(`Error creating pull request: ${error.message || error}`);
+        }
+    }
+
+    private async _loadLocalData() {
+        try {
+            debugChannel.log('Loading local git data...');
+            const workspacePath = await this._getRepositoryPath();
+            if (!workspacePath) {
+                debugChannel.warn('No workspace folder found');
+                vscode.window.showErrorMessage('No workspace folder found');
+                return;
+            }
+
+            const [stashes, changes] = await Promise.all([
+                this.githubService.getGitStashes(workspacePath),
+                this.githubService.getUncommittedChanges(workspacePath)
+            ]);
+
+            this._sendMessage({
+                type: 'localDataLoaded',
+                stashes,
+                changes
+            });
+            debugChannel.info('Local git data loaded and sent to webview');
+        } catch (error) {
+            debugChannel.error('Error loading local data', error as Error);
+            vscode.window.showErrorMessage(`Error loading local data: ${error}`);
+        }
+    }
+
+    private async _loadMyWork() {
+        try {
+            debugChannel.log('Loading my work...');
+            const work = await (await this._getActiveGitHub()).getMyWork();
+            const processed: Record<string, any[]> = {};
+            for (const [category, items] of Object.entries(work)) {
+                processed[category] = this._processItems(items);
+                DetailsPanel.syncItems(processed[category]);
+            }
+
+            this._sendMessage({
+                type: 'myWorkLoaded',
+                work: processed
+            });
+            debugChannel.info('My work loaded and sent to webview');
+        } catch (error) {
+            debugChannel.error('Error loading my work', error as Error);
+            this._sendMessage({ type: 'myWorkError', message: `${error}` });
+            vscode.window.showErrorMessage(`Error loading my work: ${error}`);
+        }
+    }
+
+    private async _loadNotifications(allRepositories: boolean, includeRead: boolean) {
+        try {
+            debugChannel.log('Loading notifications...', { allRepositories, includeRead });
+            let notifications: any[];
+            if (allRepositories) {
+                // The inbox across all repositories works without a GitHub repository open
+                notifications = await (await this._getActiveGitHub()).getNotifications(includeRead);
+            } else {
+                const resolved = await this._resolveRepository(undefined, true);
+                if (!resolved) {
+                    return;
+                }
+                const { repoInfo, github } = resolved;
+                notifications = await github.getNotifications(includeRead, repoInfo.owner, repoInfo.repo);
+            }
+
+            this._sendMessage({
+                type: 'notificationsLoaded',
+                // Only what the inbox renders; full thread objects carry several nested repository payloads
+                notifications: notifications.map(notification => ({
+                    id: notification.id,
+                    unread: notification.unread,
+                    reason: notification.reason,
+                    updated_at: notification.updated_at,
+                    subject: notification.subject,
+                    repository: {
+                        full_name: notification.repository.full_name,
+                        html_url: notification.repository.html_url
+                    }
+                }))
+            });
+            debugChannel.info('Notifications loaded and sent to webview');
+        } catch (error) {
+            debugChannel.error('Error loading notifications', error as Error);
+            this._sendMessage({ type: 'notificationsError', message: `${error}` });
+            vscode.window.showErrorMessage(`Error loading notifications: ${error}`);
+        }
+    }
+
+    private async _openNotification(notification: any) {
+        try {
+            debugChannel.log('Opening notification', { id: notification.id });
+            const item = await (await this._getActiveGitHub()).getNotificationSubject(notification);
+            if (item) {
+                await this._viewItemDetails(this._processItems([item])[0]);
+            } else {
+                // CI runs, releases and discussions have no details view
+                vscode.env.openExternal(vscode.Uri.parse(`${notification.repository.html_url}${notification.reason === 'ci_activity' ? '/actions' : ''}`));
+            }
+
+            if (notification.unread) {
+                await this._updateNotification(notification.id, 'read');
+            }
+        } catch (error) {
+            debugChannel.error('Error opening notification', error as Error);
+            vscode.window.showErrorMessage(`Error opening notification: ${error}`);
+        }
+    }
+
+    private async _updateNotification(threadId: string, change: 'read' | 'done' | 'unsubscribed') {
+        try {
+            debugChannel.log('Updating notification', { threadId, change });
+            const github = await this._getActiveGitHub();
+            if (change === 'read') {
+                await github.markNotificationRead(threadId);
+            } else if (change === 'done') {
+                await github.markNotificationDone(threadId);
+            } else {
+                await github.unsubscribeFromThread(threadId);
+            }
+
+            this._sendMessage({ type: 'notificationUpdated', threadId, change });
+        } catch (error) {
+            debugChannel.error('Error updating notification', error as Error);
+            vscode.window.showErrorMessage(`Error updating notification: ${error}`);
+        }
+    }
+
+    private async _loadActivity() {
+        try {
+            debugChannel.log('Loading recent activity...');
+            const resolved = await this._resolveRepository(undefined, true);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const activity = await github.getRecentActivity(repoInfo.owner, repoInfo.repo);
+            
             this._sendMessage({
                 type: 'activityLoaded',
                 activity
@@ -388,43 +1176,103 @@ export class devDashProvider {
     private async _checkoutPRGitHubStyle(prNumber: number) {
         try {
             debugChannel.log('Attempting GitHub-style PR checkout', { prNumber });
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const workspacePath = await this._getRepositoryPath();
+            if (!workspacePath) {
                 debugChannel.warn('No workspace folder found for PR checkout');
                 vscode.window.showErrorMessage('No workspace folder found');
                 return;
             }
 
-            await this.githubService.checkoutPRGitHubStyle(workspaceFolder.uri.fsPath, prNumber);
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Checking out PR #${prNumber}...`,
+                cancellable: true
+            }, (progress, token) => this.githubService.checkoutPRGitHubStyle(workspacePath, prNumber, token));
             debugChannel.info(`Successfully checked out PR #${prNumber} (GitHub style)`);
             vscode.window.showInformationMessage(`Checked out PR #${prNumber} using GitHub CLI style`);
+            this._sendMessage({ type: 'prBranchesChanged' });
         } catch (error) {
             debugChannel.error('Error checking out PR (GitHub style)', error as Error);
             vscode.window.showErrorMessage(`Error checking out PR: ${error}`);
         }
     }
 
-    private async _loadPRDetails(prNumber: number) {
+    private async _loadPRBranchStates(prs: PRBranchRef[]) {
         try {
-            debugChannel.log('Loading PR details', { prNumber });
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const workspacePath = await this._getRepositoryPath();
+            if (!workspacePath) {
+                debugChannel.warn('No workspace folder found');
+                return;
+            }
+
+            const states = await this.githubService.getPRBranchStates(workspacePath, prs);
+
+            this._sendMessage({
+                type: 'prBranchStatesLoaded',
+                states
+            });
+        } catch (error) {
+            debugChannel.error('Error loading PR branch states', error as Error);
+        }
+    }
+
+    private async _switchPRBranch(prNumber: number, branch: string) {
+        try {
+            debugChannel.log('Switching to PR branch', { prNumber, branch });
+            const workspacePath = await this._getRepositoryPath();
+            if (!workspacePath) {
+                debugChannel.warn('No workspace folder found');
+                vscode.window.showErrorMessage('No workspace folder found');
+                return;
+            }
+
+            await this.githubService.switchToBranch(workspacePath, branch);
+            vscode.window.showInformationMessage(`Switched to ${branch} (PR #${prNumber})`);
+            this._sendMessage({ type: 'prBranchesChanged' });
+        } catch (error) {
+            debugChannel.error('Error switching to PR branch', error as Error);
+            vscode.window.showErrorMessage(`Error switching branch: ${error}`);
+        }
+    }
+
+    private async _updatePRBranch(prNumber: number, branch: string) {
+        try {
+            debugChannel.log('Updating PR branch', { prNumber, branch });
+            const workspacePath = await this._getRepositoryPath();
+            if (!workspacePath) {
                 debugChannel.warn('No workspace folder found');
+                vscode.window.showErrorMessage('No workspace folder found');
                 return;
             }
 
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Updating ${branch}...`,
+                cancellable: true
+            }, (progress, token) => this.githubService.updatePRBranch(workspacePath, prNumber, branch, token));
+            vscode.window.showInformationMessage(`Updated ${branch} to the latest PR #${prNumber} changes`);
+            this._sendMessage({ type: 'prBranchesChanged' });
+        } catch (error) {
+            debugChannel.error('Error updating PR branch', error as Error);
+            vscode.window.showErrorMessage(`Error updating branch (local commits may need to be pushed or rebased): ${error}`);
+        }
+    }
+
+    private async _loadPRDetails(prNumber: number, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Loading PR details', { prNumber });
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
                 return;
             }
+            const { repoInfo, github } = resolved;
 
-            const prDetails = await this.githubService.getPRDetails(repoInfo.owner, repoInfo.repo, prNumber);
+            const prDetails = await github.getPRDetails(repoInfo.owner, repoInfo.repo, prNumber);
             
             this._sendMessage({
                 type: 'prDetailsLoaded',
                 prDetails
-            });
+            }, webview);
             debugChannel.info('PR details loaded and sent to webview');
         } catch (error) {
             debugChannel.error('Error loading PR details', error as Error);
@@ -432,28 +1280,22 @@ export class devDashProvider {
         }
     }
 
-    private async _loadPRComments(prNumber: number) {
+    private async _loadPRComments(prNumber: number, webview?: vscode.Webview) {
         try {
             debugChannel.log('Loading PR comments', { prNumber });
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found');
-                return;
-            }
-
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
                 return;
             }
+            const { repoInfo, github } = resolved;
 
-            const comments = await this.githubService.getPRComments(repoInfo.owner, repoInfo.repo, prNumber);
+            const comments = await github.getPRComments(repoInfo.owner, repoInfo.repo, prNumber);
             
             this._sendMessage({
                 type: 'prCommentsLoaded',
                 comments,
                 prNumber
-            });
+            }, webview);
             debugChannel.info(`PR comments loaded: ${comments.length} comments`);
         } catch (error) {
             debugChannel.error('Error loading PR comments', error as Error);
@@ -461,163 +1303,995 @@ export class devDashProvider {
         }
     }
 
-    private async _addPRComment(prNumber: number, body: string) {
+    private async _addPRComment(prNumber: number, body: string, webview?: vscode.Webview) {
         try {
             debugChannel.log('Adding PR comment', { prNumber });
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found');
-                return;
-            }
-
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
+            const resolved = await this._resolveRepository(webview, true);
+            if (!resolved) {
+                this._sendMessage({ type: 'prCommentFailed', prNumber }, webview);
                 return;
             }
+            const { repoInfo, github } = resolved;
 
-            const comment = await this.githubService.addPRComment(repoInfo.owner, repoInfo.repo, prNumber, body);
+            const comment = await github.addPRComment(repoInfo.owner, repoInfo.repo, prNumber, body);
             
             this._sendMessage({
                 type: 'prCommentAdded',
                 comment,
                 prNumber
-            });
+            }, webview);
             debugChannel.info(`PR comment added: #${comment.id}`);
             vscode.window.showInformationMessage('Comment added successfully!');
         } catch (error) {
             debugChannel.error('Error adding PR comment', error as Error);
+            this._sendMessage({ type: 'prCommentFailed', prNumber }, webview);
             vscode.window.showErrorMessage(`Error adding comment: ${error}`);
         }
     }
 
-    private async _copyPRContent(prNumber: number) {
+    private async _loadReviewThreads(prNumber: number, webview?: vscode.Webview) {
         try {
-            debugChannel.log('Copying PR content', { prNumber });
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found');
+            debugChannel.log('Loading review threads', { prNumber });
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
                 return;
             }
+            const { repoInfo, github } = resolved;
+
+            const threads = await github.getReviewThreads(repoInfo.owner, repoInfo.repo, prNumber);
+
+            this._sendMessage({
+                type: 'reviewThreadsLoaded',
+                threads,
+                prNumber
+            }, webview);
+            debugChannel.info(`Review threads loaded: ${threads.length} threads`);
+        } catch (error) {
+            debugChannel.error('Error loading review threads', error as Error);
+            vscode.window.showErrorMessage(`Error loading review threads: ${error}`);
+        }
+    }
 
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
+    private async _replyToThread(prNumber: number, commentId: number, body: string, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Replying to review thread', { prNumber, commentId });
+            const resolved = await this._resolveRepository(webview, true);
+            if (!resolved) {
+                this._sendMessage({ type: 'threadReplyFailed', prNumber, commentId }, webview);
                 return;
             }
+            const { repoInfo, github } = resolved;
 
-            const [prDetails, comments] = await Promise.all([
-                this.githubService.getPRDetails(repoInfo.owner, repoInfo.repo, prNumber),
-                this.githubService.getPRComments(repoInfo.owner, repoInfo.repo, prNumber)
-            ]);
+            await github.replyToReviewComment(repoInfo.owner, repoInfo.repo, prNumber, commentId, body);
+            this._sendMessage({ type: 'threadReplyAdded', prNumber, commentId }, webview);
+            vscode.window.showInformationMessage('Reply added successfully!');
+            await this._loadReviewThreads(prNumber, webview);
+        } catch (error) {
+            debugChannel.error('Error replying to review thread', error as Error);
+            this._sendMessage({ type: 'threadReplyFailed', prNumber, commentId }, webview);
+            vscode.window.showErrorMessage(`Error adding reply: ${error}`);
+        }
+    }
 
-            const copyableContent = this.githubService.generateCopyableContent(prDetails, comments);
-            
-            await vscode.env.clipboard.writeText(copyableContent);
-            vscode.window.showInformationMessage(`PR #${prNumber} content copied to clipboard!`);
-            debugChannel.info(`PR content copied to clipboard: ${copyableContent.length} characters`);
+    private async _createLineComment(prNumber: number, comment: NewReviewComment, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Creating line comment', { prNumber, path: comment.path, line: comment.line });
+            const resolved = await this._resolveRepository(webview, true);
+            if (!resolved) {
+                this._sendMessage({ type: 'lineCommentFailed', prNumber }, webview);
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            await github.createReviewComment(repoInfo.owner, repoInfo.repo, prNumber, comment);
+            this._sendMessage({ type: 'lineCommentAdded', prNumber }, webview);
+            vscode.window.showInformationMessage(`Comment added on ${comment.path}:${comment.line}`);
+            await this._loadReviewThreads(prNumber, webview);
         } catch (error) {
-            debugChannel.error('Error copying PR content', error as Error);
-            vscode.window.showErrorMessage(`Error copying PR content: ${error}`);
+            debugChannel.error('Error creating line comment', error as Error);
+            this._sendMessage({ type: 'lineCommentFailed', prNumber }, webview);
+            vscode.window.showErrorMessage(`Error adding line comment: ${error}`);
         }
     }
 
-    private async _loadCollaborators() {
+    private async _setThreadResolved(prNumber: number, threadId: string, resolved: boolean, webview?: vscode.Webview) {
         try {
-            debugChannel.log('Loading repository collaborators...');
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found');
+            debugChannel.log('Changing review thread resolution', { prNumber, threadId, resolved });
+            const repository = await this._resolveRepository(webview);
+            if (!repository) {
                 return;
             }
+            await repository.github.setReviewThreadResolved(threadId, resolved);
+            await this._loadReviewThreads(prNumber, webview);
+        } catch (error) {
+            debugChannel.error('Error changing review thread resolution', error as Error);
+            vscode.window.showErrorMessage(`Error updating thread: ${error}`);
+        }
+    }
 
-            const repoInfo = await this.githubService.getRepositoryInfo(workspaceFolder.uri.fsPath);
-            if (!repoInfo) {
-                debugChannel.warn('No GitHub repository info found');
+    private async _loadPRFiles(prNumber: number, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Loading PR files', { prNumber });
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
                 return;
             }
+            const { repoInfo, github } = resolved;
+
+            const files = await github.getPRFiles(repoInfo.owner, repoInfo.repo, prNumber);
 
-            const collaborators = await this.githubService.getRepositoryCollaborators(repoInfo.owner, repoInfo.repo);
-            
             this._sendMessage({
-                type: 'collaboratorsLoaded',
-                collaborators
-            });
-            debugChannel.info(`Collaborators loaded: ${collaborators.length}`);
+                type: 'prFilesLoaded',
+                files,
+                prNumber
+            }, webview);
+            debugChannel.info(`PR files loaded: ${files.length} files`);
         } catch (error) {
-            debugChannel.error('Error loading collaborators', error as Error);
+            debugChannel.error('Error loading PR files', error as Error);
+            vscode.window.showErrorMessage(`Error loading PR files: ${error}`);
+        }
+    }
+
+    private async _openFileDiff(prNumber: number, file: { filename: string; previous_filename?: string; status: string }, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Opening PR file diff', { prNumber, filename: file.filename });
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const { baseSha, headSha } = await github.getPRDiffRefs(repoInfo.owner, repoInfo.repo, prNumber);
+            const basePath = file.previous_filename || file.filename;
+
+            const left = PRContentProvider.createUri(basePath, { owner: repoInfo.owner, repo: repoInfo.repo, ref: baseSha, host: repoInfo.host });
+            const right = PRContentProvider.createUri(file.filename, { owner: repoInfo.owner, repo: repoInfo.repo, ref: headSha, host: repoInfo.host });
+            const title = basePath === file.filename
+                ? `${file.filename} (PR #${prNumber})`
+                : `${basePath} → ${file.filename} (PR #${prNumber})`;
+
+            await vscode.commands.executeCommand('vscode.diff', left, right, title, { preview: true });
+        } catch (error) {
+            debugChannel.error('Error opening PR file diff', error as Error);
+            vscode.window.showErrorMessage(`Error opening diff: ${error}`);
+        }
+    }
+
+    private async _loadPRChecks(prNumber: number, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Loading PR checks', { prNumber });
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const pr = await github.getPRDetails(repoInfo.owner, repoInfo.repo, prNumber);
+            const status = await github.getCIStatus(repoInfo.owner, repoInfo.repo, pr.head.sha);
+
             this._sendMessage({
-                type: 'collaboratorsLoaded',
-                collaborators: []
-            });
+                type: 'prChecksLoaded',
+                status,
+                prNumber
+            }, webview);
+            debugChannel.info(`PR checks loaded: ${status.total} checks`);
+        } catch (error) {
+            debugChannel.error('Error loading PR checks', error as Error);
+            vscode.window.showErrorMessage(`Error loading PR checks: ${error}`);
         }
     }
 
-    private async _checkoutIssueBranch(issueNumber: number, branchName: string) {
+    private async _loadPRReviews(prNumber: number, webview?: vscode.Webview) {
         try {
-            debugChannel.log('Checking out issue branch', { issueNumber, branchName });
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                debugChannel.warn('No workspace folder found for issue branch checkout');
-                vscode.window.showErrorMessage('No workspace folder found');
+            debugChannel.log('Loading PR reviews', { prNumber });
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
                 return;
             }
+            const { repoInfo, github } = resolved;
 
-            await this.githubService.checkoutIssueBranch(workspaceFolder.uri.fsPath, branchName);
-            debugChannel.info(`Successfully created/checked out branch: ${branchName} for issue #${issueNumber}`);
-            vscode.window.showInformationMessage(`Created/checked out branch "${branchName}" for issue #${issueNumber}`);
+            const reviews = await github.getPRReviews(repoInfo.owner, repoInfo.repo, prNumber);
+
+            this._sendMessage({
+                type: 'prReviewsLoaded',
+                reviews,
+                prNumber
+            }, webview);
+            debugChannel.info(`PR reviews loaded: ${reviews.length} reviews`);
         } catch (error) {
-            debugChannel.error('Error checking out issue branch', error as Error);
-            vscode.window.showErrorMessage(`Error checking out branch: ${error}`);
+            debugChannel.error('Error loading PR reviews', error as Error);
+            vscode.window.showErrorMessage(`Error loading PR reviews: ${error}`);
         }
     }
 
-    private async _switchAccount() {
+    private async _submitPRReview(prNumber: number, event: PullRequestReviewEvent, body: string, webview?: vscode.Webview) {
         try {
-            debugChannel.log('Attempting to switch GitHub account');
-            await this.githubService.switchAccount();
-            debugChannel.info('GitHub account switched successfully');
-            
-            // Reload data with new account
-            await this._loadGitHubData();
-            vscode.window.showInformationMessage('GitHub account switched successfully');
+            debugChannel.log('Submitting PR review', { prNumber, event });
+            const resolved = await this._resolveRepository(webview, true);
+            if (!resolved) {
+                this._sendMessage({ type: 'prReviewFailed', prNumber }, webview);
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const review = await github.submitPRReview(repoInfo.owner, repoInfo.repo, prNumber, event, body);
+
+            this._sendMessage({
+                type: 'prReviewSubmitted',
+                review,
+                prNumber
+            }, webview);
+            debugChannel.info(`PR review submitted: #${review.id}`);
+            vscode.window.showInformationMessage(`Review submitted on PR #${prNumber}`);
         } catch (error) {
-            debugChannel.error('Error switching GitHub account', error as Error);
-            vscode.window.showErrorMessage(`Error switching GitHub account: ${error}`);
+            debugChannel.error('Error submitting PR review', error as Error);
+            this._sendMessage({ type: 'prReviewFailed', prNumber }, webview);
+            vscode.window.showErrorMessage(`Error submitting review: ${error}`);
         }
     }
 
-    private _createPreview(text: string): string {
-        if (!text) return '';
-        // Remove markdown syntax and create a plain text preview
-        let preview = text
-            .replace(/[#*`_\[\]()]/g, '') // Remove basic markdown chars
-            .replace(/\n+/g, ' ') // Replace newlines with spaces
-            .trim();
-        
-        // Truncate to 150 characters
-        if (preview.length > 150) {
-            preview = preview.substring(0, 147) + '...';
+    private async _loadIssueDetails(issueNumber: number, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Loading issue details', { issueNumber });
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const [issueResult, commentsResult, timelineResult] = await Promise.allSettled([
+                github.getIssue(repoInfo.owner, repoInfo.repo, issueNumber),
+                github.getIssueComments(repoInfo.owner, repoInfo.repo, issueNumber),
+                github.getIssueTimeline(repoInfo.owner, repoInfo.repo, issueNumber)
+            ]);
+            if (issueResult.status === 'rejected') {
+                throw issueResult.reason;
+            }
+            const issue = issueResult.value;
+
+            // The issue is still worth showing when its comments or events cannot be read
+            const comments = commentsResult.status === 'fulfilled' ? commentsResult.value : [];
+            const timeline = timelineResult.status === 'fulfilled' ? timelineResult.value : [];
+            const failures = [commentsResult, timelineResult].filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+            if (failures.length > 0) {
+                debugChannel.warn('Issue details loaded partially', failures[0].reason as Error);
+                vscode.window.showWarningMessage(`Some of issue #${issueNumber}'s comments or events could not be loaded: ${failures[0].reason}`);
+            }
+
+            this._sendMessage({
+                type: 'issueDetailsLoaded',
+                issue,
+                comments,
+                timeline
+            }, webview);
+            debugChannel.info(`Issue details loaded: ${comments.length} comments, ${timeline.length} events`);
+        } catch (error) {
+            debugChannel.error('Error loading issue details', error as Error);
+            vscode.window.showErrorMessage(`Error loading issue details: ${error}`);
         }
-        
-        return preview;
     }
 
-    private _sendMessage(message: any) {
-        if (devDashProvider._currentPanel) {
-            devDashProvider._currentPanel.webview.postMessage(message);
+    private async _addIssueComment(issueNumber: number, body: string, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Adding issue comment', { issueNumber });
+            const resolved = await this._resolveRepository(webview, true);
+            if (!resolved) {
+                this._sendMessage({ type: 'issueCommentFailed', issueNumber }, webview);
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const comment = await github.addIssueComment(repoInfo.owner, repoInfo.repo, issueNumber, body);
+
+            this._sendMessage({
+                type: 'issueCommentAdded',
+                comment,
+                issueNumber
+            }, webview);
+            debugChannel.info(`Issue comment added: #${comment.id}`);
+            vscode.window.showInformationMessage('Comment added successfully!');
+        } catch (error) {
+            debugChannel.error('Error adding issue comment', error as Error);
+            this._sendMessage({ type: 'issueCommentFailed', issueNumber }, webview);
+            vscode.window.showErrorMessage(`Error adding comment: ${error}`);
         }
     }
 
-    private _update(webview: vscode.Webview, extensionUri: vscode.Uri) {
-        webview.html = this._getHtmlForWebview(webview, extensionUri);
+    /** Labels, open milestones and assignable users for the issue edit form */
+    private async _loadIssueEditOptions(webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Loading issue edit options');
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            // Listing collaborators needs push access, so a 403 there must not take labels and milestones with it
+            const [labels, milestones, collaborators] = (await Promise.allSettled([
+                github.getRepositoryLabels(repoInfo.owner, repoInfo.repo),
+                github.getMilestones(repoInfo.owner, repoInfo.repo),
+                github.getRepositoryCollaborators(repoInfo.owner, repoInfo.repo)
+            ])).map((result, index) => {
+                if (result.status === 'fulfilled') {
+                    return result.value;
+                }
+                debugChannel.warn(`Could not load ${['labels', 'milestones', 'collaborators'][index]} for the issue form`, result.reason as Error);
+                return [];
+            });
+
+            this._sendMessage({
+                type: 'issueEditOptionsLoaded',
+                labels,
+                milestones,
+                collaborators
+            }, webview);
+        } catch (error) {
+            debugChannel.error('Error loading issue edit options', error as Error);
+            vscode.window.showErrorMessage(`Error loading labels and milestones: ${error}`);
+        }
     }
 
-    private _getHtmlForWebview(webview: vscode.Webview, extensionUri: vscode.Uri) {
-        return `<!DOCTYPE html>
-        <html lang="en">
-        <head>
+    private async _updateIssue(issueNumber: number, changes: IssueUpdate, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Updating issue', { issueNumber, fields: Object.keys(changes) });
+            const resolved = await this._resolveRepository(webview, true);
+            if (!resolved) {
+                this._sendMessage({ type: 'issueUpdateFailed', issueNumber }, webview);
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const issue = await github.updateIssue(repoInfo.owner, repoInfo.repo, issueNumber, changes);
+            // The update has landed; a timeline that fails to reload only leaves the events stale
+            let timeline: any[] | undefined;
+            try {
+                timeline = await github.getIssueTimeline(repoInfo.owner, repoInfo.repo, issueNumber);
+            } catch (timelineError) {
+                debugChannel.warn('Could not reload the issue timeline after updating', timelineError as Error);
+            }
+
+            this._sendMessage({
+                type: 'issueUpdated',
+                issue,
+                timeline
+            }, webview);
+            debugChannel.info(`Issue #${issueNumber} updated`);
+
+            // Keep the dashboard grid in step with the change, unless it shows another repository
+            const dashboard = devDashProvider._currentProvider;
+            const shown = dashboard ? await dashboard._resolveRepository() : null;
+            const sameRepository = !!shown
+                && (shown.repoInfo.host || GITHUB_HOST) === (repoInfo.host || GITHUB_HOST)
+                && shown.repoInfo.owner.toLowerCase() === repoInfo.owner.toLowerCase()
+                && shown.repoInfo.repo.toLowerCase() === repoInfo.repo.toLowerCase();
+            if (dashboard && sameRepository) {
+                await dashboard._refreshIssues();
+            }
+        } catch (error) {
+            debugChannel.error('Error updating issue', error as Error);
+            this._sendMessage({ type: 'issueUpdateFailed', issueNumber }, webview);
+            vscode.window.showErrorMessage(`Error updating issue: ${error}`);
+        }
+    }
+
+    private async _loadSavedViews() {
+        try {
+            debugChannel.log('Loading saved views...');
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { workspacePath, repoInfo, github } = resolved;
+
+            const shared = await github.getSharedViews(workspacePath);
+            // A personal view with the same name as a shared one hides it
+            const local = github.getSavedViews(repoInfo.owner, repoInfo.repo);
+            const views = shared.filter(view => !local.some(own => own.name === view.name)).concat(local);
+            this._sendMessage({
+                type: 'savedViewsLoaded',
+                views,
+                repository: `${repoInfo.owner}/${repoInfo.repo}`
+            });
+            debugChannel.info(`Saved views loaded: ${local.length} personal, ${shared.length} shared`);
+        } catch (error) {
+            debugChannel.error('Error loading saved views', error as Error);
+        }
+    }
+
+    private async _saveView(view: SavedView) {
+        try {
+            debugChannel.log('Saving view', view);
+            const resolved = await this._resolveRepository(undefined, true);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const name = (await vscode.window.showInputBox({
+                prompt: `Name this ${view.tab === 'issues' ? 'issues' : 'pull requests'} view`,
+                placeHolder: 'e.g. Needs triage',
+                validateInput: value => value.trim() ? undefined : 'Enter a name'
+            }))?.trim();
+            if (!name) {
+                return;
+            }
+
+            const views = github.getSavedViews(repoInfo.owner, repoInfo.repo);
+            if (views.some(existing => existing.name === name)) {
+                const choice = await vscode.window.showWarningMessage(`Replace the saved view "${name}"?`, { modal: true }, 'Replace');
+                if (choice !== 'Replace') {
+                    return;
+                }
+            }
+
+            const saved: SavedView = {
+                name,
+                tab: view.tab,
+                query: view.query || '',
+                status: view.status,
+                sort: view.sort || undefined,
+                groupBy: view.groupBy || undefined
+            };
+            await github.setSavedViews(repoInfo.owner, repoInfo.repo, views.filter(existing => existing.name !== name).concat(saved));
+            await this._loadSavedViews();
+        } catch (error) {
+            debugChannel.error('Error saving view', error as Error);
+            vscode.window.showErrorMessage(`Error saving view: ${error}`);
+        }
+    }
+
+    private async _deleteView(name: string, shared: boolean) {
+        try {
+            debugChannel.log('Deleting view', { name, shared });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { workspacePath, repoInfo, github } = resolved;
+
+            if (shared) {
+                // Removing a shared view changes a committed file the whole team uses
+                const choice = await vscode.window.showWarningMessage(
+                    `Remove "${name}" from ${SHARED_VIEWS_FILE}? It disappears for everyone once the change is committed.`,
+                    { modal: true },
+                    'Remove'
+                );
+                if (choice !== 'Remove') {
+                    return;
+                }
+                await github.deleteSharedView(workspacePath, name);
+            } else {
+                const views = github.getSavedViews(repoInfo.owner, repoInfo.repo);
+                await github.setSavedViews(repoInfo.owner, repoInfo.repo, views.filter(view => view.name !== name));
+            }
+            await this._loadSavedViews();
+        } catch (error) {
+            debugChannel.error('Error deleting view', error as Error);
+            vscode.window.showErrorMessage(`Error deleting view: ${error}`);
+        }
+    }
+
+    /** Moves a personal view into the committed devdash.json so the team gets it too */
+    private async _shareView(name: string) {
+        try {
+            debugChannel.log('Sharing view', { name });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { workspacePath, repoInfo, github } = resolved;
+
+            const local = github.getSavedViews(repoInfo.owner, repoInfo.repo);
+            const view = local.find(candidate => candidate.name === name);
+            if (!view) {
+                return;
+            }
+
+            await github.saveSharedView(workspacePath, view);
+            await github.setSavedViews(repoInfo.owner, repoInfo.repo, local.filter(candidate => candidate.name !== name));
+            await this._loadSavedViews();
+
+            const choice = await vscode.window.showInformationMessage(
+                `"${name}" was added to ${SHARED_VIEWS_FILE}. Commit the file to share it with your team.`,
+                'Open File'
+            );
+            if (choice === 'Open File') {
+                await vscode.window.showTextDocument(vscode.Uri.file(path.join(workspacePath, SHARED_VIEWS_FILE)));
+            }
+        } catch (error) {
+            debugChannel.error('Error sharing view', error as Error);
+            vscode.window.showErrorMessage(`Error sharing view: ${error}`);
+        }
+    }
+
+    private async _searchItems(kind: 'issues' | 'prs', query: string) {
+        try {
+            debugChannel.log('Searching items', { kind, query });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const items = await github.searchRepositoryItems(repoInfo.owner, repoInfo.repo, kind, query);
+            this._sendMessage({
+                type: 'searchResults',
+                kind,
+                query,
+                items: this._processItems(items)
+            });
+        } catch (error) {
+            debugChannel.error('Error searching items', error as Error);
+            this._sendMessage({ type: 'searchFailed', kind, query, message: `${error}` });
+        }
+    }
+
+    private async _loadLabels(webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Loading repository labels');
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const labels = await github.getRepositoryLabels(repoInfo.owner, repoInfo.repo);
+            this._sendMessage({
+                type: 'labelsLoaded',
+                labels
+            }, webview);
+        } catch (error) {
+            debugChannel.error('Error loading labels', error as Error);
+            vscode.window.showErrorMessage(`Error loading labels: ${error}`);
+        }
+    }
+
+    private async _loadMilestones() {
+        try {
+            debugChannel.log('Loading milestones');
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const milestones = await github.getMilestones(repoInfo.owner, repoInfo.repo);
+            this._sendMessage({
+                type: 'milestonesLoaded',
+                milestones
+            });
+        } catch (error) {
+            debugChannel.error('Error loading milestones', error as Error);
+            vscode.window.showErrorMessage(`Error loading milestones: ${error}`);
+        }
+    }
+
+    private async _setLabels(issueNumber: number, labels: string[], webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Setting labels', { issueNumber, labels });
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const updated = await github.setIssueLabels(repoInfo.owner, repoInfo.repo, issueNumber, labels);
+            const message = {
+                type: 'itemLabelsUpdated',
+                number: issueNumber,
+                labels: updated,
+                repository: `${repoInfo.owner}/${repoInfo.repo}`
+            };
+            this._sendMessage(message, webview);
+            // Cards on the dashboard show the same labels as the details panel the change came from
+            if (webview && devDashProvider._currentProvider) {
+                devDashProvider._currentProvider._sendMessage(message);
+            }
+        } catch (error) {
+            debugChannel.error('Error setting labels', error as Error);
+            vscode.window.showErrorMessage(`Error setting labels: ${error}`);
+        }
+    }
+
+    private async _manageLabel(action: 'create' | 'update' | 'delete', name: string, changes: { newName?: string, color?: string, description?: string } = {}) {
+        try {
+            debugChannel.log('Managing label', { action, name });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            if (action === 'create') {
+                await github.createLabel(repoInfo.owner, repoInfo.repo, name, changes.color || 'ededed', changes.description);
+            } else if (action === 'update') {
+                await github.updateLabel(repoInfo.owner, repoInfo.repo, name, changes);
+            } else {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Delete the label "${name}" from ${repoInfo.owner}/${repoInfo.repo}? It is removed from every issue and pull request.`,
+                    { modal: true },
+                    'Delete'
+                );
+                if (confirm !== 'Delete') {
+                    return;
+                }
+                await github.deleteLabel(repoInfo.owner, repoInfo.repo, name);
+            }
+
+            await this._loadLabels();
+            if (action !== 'create') {
+                // Renamed, recoloured or removed labels change how existing cards render
+                await Promise.all([this._refreshIssues(), this._refreshPRs()]);
+            }
+        } catch (error) {
+            debugChannel.error('Error managing label', error as Error);
+            vscode.window.showErrorMessage(`Error updating label: ${error}`);
+        }
+    }
+
+    private async _copyPRContent(prNumber: number, webview?: vscode.Webview) {
+        try {
+            debugChannel.log('Copying PR content', { prNumber });
+            const resolved = await this._resolveRepository(webview);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const [prDetails, comments] = await Promise.all([
+                github.getPRDetails(repoInfo.owner, repoInfo.repo, prNumber),
+                github.getPRComments(repoInfo.owner, repoInfo.repo, prNumber)
+            ]);
+
+            const copyableContent = github.generateCopyableContent(prDetails, comments);
+            
+            await vscode.env.clipboard.writeText(copyableContent);
+            vscode.window.showInformationMessage(`PR #${prNumber} content copied to clipboard!`);
+            debugChannel.info(`PR content copied to clipboard: ${copyableContent.length} characters`);
+        } catch (error) {
+            debugChannel.error('Error copying PR content', error as Error);
+            vscode.window.showErrorMessage(`Error copying PR content: ${error}`);
+        }
+    }
+
+    private async _checkMergeability(prNumber: number) {
+        try {
+            debugChannel.log('Checking mergeability', { prNumber });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const result = await github.checkMergeability(repoInfo.owner, repoInfo.repo, prNumber);
+
+            this._sendMessage({
+                type: 'mergeabilityChecked',
+                prNumber,
+                result
+            });
+        } catch (error) {
+            debugChannel.error('Error checking mergeability', error as Error);
+            this._sendMessage({
+                type: 'mergeabilityChecked',
+                prNumber,
+                result: { mergeable: false, reason: `Could not check mergeability: ${error}` }
+            });
+        }
+    }
+
+    private async _mergePR(prNumber: number, options: MergeOptions) {
+        try {
+            debugChannel.log('Merging PR', { prNumber, method: options.method });
+            const resolved = await this._resolveRepository(undefined, true);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            await github.mergePullRequest(repoInfo.owner, repoInfo.repo, prNumber, options);
+            debugChannel.info(`PR #${prNumber} merged successfully`);
+            vscode.window.showInformationMessage(`PR #${prNumber} merged (${options.method})`);
+
+            await this._refreshPRs();
+        } catch (error: any) {
+            debugChannel.error('Error merging PR', error as Error);
+            vscode.window.showErrorMessage(`Error merging PR: ${error.message || error}`);
+        }
+    }
+
+    private async _setPRState(prNumber: number, state: 'open' | 'closed') {
+        try {
+            debugChannel.log('Changing PR state', { prNumber, state });
+            const resolved = await this._resolveRepository(undefined, true);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const action = state === 'closed' ? 'Close' : 'Reopen';
+            const confirmation = await vscode.window.showWarningMessage(
+                `${action} PR #${prNumber}?`,
+                { modal: true },
+                action
+            );
+            if (confirmation !== action) {
+                return;
+            }
+
+            await github.setPullRequestState(repoInfo.owner, repoInfo.repo, prNumber, state);
+            vscode.window.showInformationMessage(`PR #${prNumber} ${state === 'closed' ? 'closed' : 'reopened'}`);
+
+            await this._refreshPRs();
+        } catch (error) {
+            debugChannel.error('Error changing PR state', error as Error);
+            vscode.window.showErrorMessage(`Error updating PR: ${error}`);
+        }
+    }
+
+    private async _loadActions(workflowId?: number) {
+        try {
+            debugChannel.log('Loading GitHub Actions...', { workflowId });
+            const resolved = await this._resolveRepository(undefined, true);
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const [workflows, runs] = await Promise.all([
+                github.getWorkflows(repoInfo.owner, repoInfo.repo),
+                github.getWorkflowRuns(repoInfo.owner, repoInfo.repo, workflowId)
+            ]);
+
+            this._sendMessage({
+                type: 'actionsLoaded',
+                workflows,
+                runs,
+                workflowId
+            });
+            debugChannel.info('GitHub Actions loaded and sent to webview');
+        } catch (error) {
+            debugChannel.error('Error loading GitHub Actions', error as Error);
+            vscode.window.showErrorMessage(`Error loading GitHub Actions: ${error}`);
+        }
+    }
+
+    private async _loadRunJobs(runId: number) {
+        try {
+            debugChannel.log('Loading workflow run jobs', { runId });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const jobs = await github.getWorkflowRunJobs(repoInfo.owner, repoInfo.repo, runId);
+
+            this._sendMessage({
+                type: 'runJobsLoaded',
+                runId,
+                jobs
+            });
+        } catch (error) {
+            debugChannel.error('Error loading workflow run jobs', error as Error);
+            vscode.window.showErrorMessage(`Error loading jobs: ${error}`);
+        }
+    }
+
+    private async _viewJobLogs(jobId: number, jobName: string) {
+        try {
+            debugChannel.log('Opening job logs', { jobId, jobName });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const logs = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Downloading logs for ${jobName}...`
+            }, () => github.getJobLogs(repoInfo.owner, repoInfo.repo, jobId));
+
+            // Open as an untitled document so the logs can be searched and saved
+            const document = await vscode.workspace.openTextDocument({ content: logs, language: 'log' });
+            await vscode.window.showTextDocument(document, { preview: false });
+        } catch (error) {
+            debugChannel.error('Error opening job logs', error as Error);
+            vscode.window.showErrorMessage(`Error downloading logs: ${error}`);
+        }
+    }
+
+    private async _rerunFailedJobs(runId: number, workflowId?: number) {
+        try {
+            debugChannel.log('Re-running failed jobs', { runId });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            await github.rerunFailedJobs(repoInfo.owner, repoInfo.repo, runId);
+            vscode.window.showInformationMessage(`Re-running failed jobs for run #${runId}`);
+            await this._loadActions(workflowId);
+        } catch (error) {
+            debugChannel.error('Error re-running failed jobs', error as Error);
+            vscode.window.showErrorMessage(`Error re-running jobs: ${error}`);
+        }
+    }
+
+    private async _cancelRun(runId: number, workflowId?: number) {
+        try {
+            debugChannel.log('Cancelling workflow run', { runId });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            await github.cancelWorkflowRun(repoInfo.owner, repoInfo.repo, runId);
+            vscode.window.showInformationMessage(`Cancellation requested for run #${runId}`);
+            await this._loadActions(workflowId);
+        } catch (error) {
+            debugChannel.error('Error cancelling workflow run', error as Error);
+            vscode.window.showErrorMessage(`Error cancelling run: ${error}`);
+        }
+    }
+
+    private async _loadDispatchInputs(workflowId: number, workflowPath: string) {
+        try {
+            debugChannel.log('Loading workflow dispatch inputs', { workflowId, workflowPath });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const info = await github.getWorkflowDispatchInfo(repoInfo.owner, repoInfo.repo, workflowPath);
+
+            this._sendMessage({
+                type: 'dispatchInputsLoaded',
+                workflowId,
+                info
+            });
+        } catch (error) {
+            debugChannel.error('Error loading workflow dispatch inputs', error as Error);
+            vscode.window.showErrorMessage(`Error reading workflow inputs: ${error}`);
+        }
+    }
+
+    private async _dispatchWorkflow(workflowId: number, ref: string, inputs: Record<string, string>) {
+        try {
+            debugChannel.log('Dispatching workflow', { workflowId, ref });
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            await github.dispatchWorkflow(repoInfo.owner, repoInfo.repo, workflowId, ref, inputs);
+            vscode.window.showInformationMessage(`Workflow run requested on ${ref}`);
+            await this._loadActions(workflowId);
+        } catch (error) {
+            debugChannel.error('Error dispatching workflow', error as Error);
+            vscode.window.showErrorMessage(`Error running workflow: ${error}`);
+        }
+    }
+
+    private async _loadCollaborators() {
+        try {
+            debugChannel.log('Loading repository collaborators...');
+            const resolved = await this._resolveRepository();
+            if (!resolved) {
+                return;
+            }
+            const { repoInfo, github } = resolved;
+
+            const collaborators = await github.getRepositoryCollaborators(repoInfo.owner, repoInfo.repo);
+            
+            this._sendMessage({
+                type: 'collaboratorsLoaded',
+                collaborators
+            });
+            debugChannel.info(`Collaborators loaded: ${collaborators.length}`);
+        } catch (error) {
+            debugChannel.error('Error loading collaborators', error as Error);
+            this._sendMessage({
+                type: 'collaboratorsLoaded',
+                collaborators: []
+            });
+        }
+    }
+
+    private async _checkoutIssueBranch(issueNumber: number, branchName: string) {
+        try {
+            debugChannel.log('Checking out issue branch', { issueNumber, branchName });
+            const workspacePath = await this._getRepositoryPath();
+            if (!workspacePath) {
+                debugChannel.warn('No workspace folder found for issue branch checkout');
+                vscode.window.showErrorMessage('No workspace folder found');
+                return;
+            }
+
+            await this.githubService.checkoutIssueBranch(workspacePath, branchName);
+            debugChannel.info(`Successfully created/checked out branch: ${branchName} for issue #${issueNumber}`);
+            vscode.window.showInformationMessage(`Created/checked out branch "${branchName}" for issue #${issueNumber}`);
+        } catch (error) {
+            debugChannel.error('Error checking out issue branch', error as Error);
+            vscode.window.showErrorMessage(`Error checking out branch: ${error}`);
+        }
+    }
+
+    private async _switchAccount() {
+        try {
+            debugChannel.log('Attempting to switch GitHub account');
+            await (await this._getActiveGitHub()).switchAccount();
+            debugChannel.info('GitHub account switched successfully');
+            
+            // Reload data with new account
+            await this._loadGitHubData();
+            vscode.window.showInformationMessage('GitHub account switched successfully');
+        } catch (error) {
+            debugChannel.error('Error switching GitHub account', error as Error);
+            vscode.window.showErrorMessage(`Error switching GitHub account: ${error}`);
+        }
+    }
+
+    private _processItems(items: any[]): any[] {
+        // Add markdown rendering and a plain text preview to issues and PRs
+        return items.map(item => ({
+            ...item,
+            body_html: this.githubService.renderMarkdown(item.body || ''),
+            body_preview: this._createPreview(item.body || '')
+        }));
+    }
+
+    private _createPreview(text: string): string {
+        if (!text) return '';
+        // Remove markdown syntax and create a plain text preview
+        let preview = text
+            .replace(/[#*`_\[\]()]/g, '') // Remove basic markdown chars
+            .replace(/\n+/g, ' ') // Replace newlines with spaces
+            .trim();
+        
+        // Truncate to 150 characters
+        if (preview.length > 150) {
+            preview = preview.substring(0, 147) + '...';
+        }
+        
+        // The preview is rendered as HTML, and bodies can come from any repository
+        return this._escapeHtml(preview);
+    }
+
+    private _escapeHtml(text: string): string {
+        return String(text ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    private _sendMessage(message: any, webview?: vscode.Webview) {
+        if (webview) {
+            webview.postMessage(message);
+        } else if (devDashProvider._currentPanel) {
+            this._cacheMessage(message);
+            devDashProvider._currentPanel.webview.postMessage(message);
+        }
+    }
+
+    private _update(webview: vscode.Webview, extensionUri: vscode.Uri) {
+        webview.html = this._getHtmlForWebview(webview, extensionUri);
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview, extensionUri: vscode.Uri) {
+        // Cards show titles and bodies from any repository, and this panel can merge PRs and run git
+        const nonce = crypto.randomBytes(16).toString('base64');
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
             <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
             <title>GitHub Issues & PRs</title>
             <style>
@@ -633,6 +2307,13 @@ export class devDashProvider {
                     justify-content: space-between;
                     align-items: center;
                 }
+                .remote-select {
+                    background-color: var(--vscode-dropdown-background);
+                    color: var(--vscode-dropdown-foreground);
+                    border: 1px solid var(--vscode-dropdown-border);
+                    padding: 2px 4px;
+                    margin-bottom: 8px;
+                }
                 .user-info {
                     display: flex;
                     align-items: center;
@@ -640,6 +2321,20 @@ export class devDashProvider {
                     font-size: 0.9em;
                     color: var(--vscode-descriptionForeground);
                 }
+                .rate-limit {
+                    font-size: 0.85em;
+                    padding: 2px 6px;
+                    border-radius: 4px;
+                    border: 1px solid var(--vscode-panel-border);
+                }
+                .rate-limit.low {
+                    color: var(--vscode-editorWarning-foreground);
+                    border-color: var(--vscode-editorWarning-foreground);
+                }
+                .rate-limit.limited {
+                    color: var(--vscode-errorForeground);
+                    border-color: var(--vscode-errorForeground);
+                }
                 .user-avatar {
                     width: 24px;
                     height: 24px;
@@ -712,6 +2407,23 @@ export class devDashProvider {
                 .tab-refresh:hover {
                     background-color: var(--vscode-button-secondaryHoverBackground);
                 }
+                .mywork-section {
+                    margin: 20px 0 8px 0;
+                }
+                .mywork-repo {
+                    font-weight: bold;
+                    color: var(--vscode-textLink-foreground);
+                    margin: 12px 0 8px 0;
+                }
+                .notification-item.read {
+                    opacity: 0.6;
+                }
+                .notification-title {
+                    cursor: pointer;
+                }
+                .notification-title:hover {
+                    color: var(--vscode-textLink-foreground);
+                }
                 .grid {
                     display: grid;
                     grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
@@ -758,6 +2470,66 @@ export class devDashProvider {
                     background-color: var(--vscode-badge-background);
                     color: var(--vscode-badge-foreground);
                 }
+                .milestone-progress {
+                    margin-bottom: 12px;
+                }
+                .milestone-row {
+                    display: flex;
+                    align-items: center;
+                    gap: 10px;
+                    margin-bottom: 6px;
+                    font-size: 0.9em;
+                }
+                .milestone-title {
+                    min-width: 160px;
+                    cursor: pointer;
+                }
+                .milestone-title:hover {
+                    color: var(--vscode-textLink-foreground);
+                }
+                .progress-track {
+                    flex: 1;
+                    height: 8px;
+                    border-radius: 4px;
+                    background-color: var(--vscode-input-background);
+                    overflow: hidden;
+                }
+                .progress-fill {
+                    height: 100%;
+                    background-color: #238636;
+                }
+                .milestone-meta {
+                    color: var(--vscode-descriptionForeground);
+                    white-space: nowrap;
+                }
+                .label-option {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    padding: 4px 0;
+                }
+                .label-list {
+                    max-height: 320px;
+                    overflow-y: auto;
+                    margin-bottom: 12px;
+                }
+                .label-manager-row {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    padding: 6px 0;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                .label-manager-row .form-input {
+                    margin: 0;
+                }
+                .label-color-input {
+                    width: 36px;
+                    height: 28px;
+                    padding: 0;
+                    border: none;
+                    background: none;
+                }
                 .priority-high {
                     border-left: 4px solid #f85149;
                     background-color: rgba(248, 81, 73, 0.1);
@@ -985,6 +2757,7 @@ export class devDashProvider {
                     margin-bottom: 4px;
                 }
                 .search-container {
+                    position: relative;
                     margin-bottom: 16px;
                     display: flex;
                     gap: 8px;
@@ -999,6 +2772,58 @@ export class devDashProvider {
                     color: var(--vscode-input-foreground);
                     font-size: 0.9em;
                 }
+                .saved-views {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 6px;
+                    margin-bottom: 12px;
+                }
+                .saved-views:empty {
+                    display: none;
+                }
+                .view-chip {
+                    display: inline-flex;
+                    align-items: center;
+                    gap: 4px;
+                    padding: 2px 10px;
+                    border-radius: 12px;
+                    border: 1px solid var(--vscode-input-border);
+                    background-color: var(--vscode-badge-background);
+                    color: var(--vscode-badge-foreground);
+                    font-size: 0.85em;
+                    cursor: pointer;
+                }
+                .view-chip.active {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                }
+                .view-chip-action {
+                    opacity: 0.7;
+                }
+                .view-chip-action:hover {
+                    opacity: 1;
+                }
+                .autocomplete-list {
+                    display: none;
+                    position: absolute;
+                    z-index: 10;
+                    min-width: 200px;
+                    max-height: 240px;
+                    overflow-y: auto;
+                    background-color: var(--vscode-editorSuggestWidget-background, var(--vscode-input-background));
+                    border: 1px solid var(--vscode-editorSuggestWidget-border, var(--vscode-input-border));
+                    border-radius: 4px;
+                }
+                .autocomplete-item {
+                    padding: 4px 10px;
+                    cursor: pointer;
+                    font-size: 0.9em;
+                }
+                .autocomplete-item.active,
+                .autocomplete-item:hover {
+                    background-color: var(--vscode-list-activeSelectionBackground);
+                    color: var(--vscode-list-activeSelectionForeground);
+                }
                 .search-input:focus {
                     outline: none;
                     border-color: var(--vscode-focusBorder);
@@ -1058,12 +2883,72 @@ export class devDashProvider {
                     border: none;
                     padding: 4px 8px;
                     border-radius: 4px;
-                    cursor: pointer;
-                    font-size: 0.8em;
-                    margin-left: 4px;
+                    cursor: pointer;
+                    font-size: 0.8em;
+                    margin-left: 4px;
+                }
+                .github-checkout-btn:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+                .item.current-branch {
+                    border-color: var(--vscode-focusBorder);
+                    border-width: 2px;
+                }
+                .branch-badge {
+                    font-size: 0.8em;
+                    color: var(--vscode-descriptionForeground);
+                    margin-top: 4px;
+                }
+                .branch-badge.current {
+                    color: var(--vscode-textLink-foreground);
+                    font-weight: bold;
+                }
+                .ci-badge {
+                    font-size: 0.8em;
+                    padding: 2px 6px;
+                    border-radius: 12px;
+                    margin-left: 6px;
+                    color: #ffffff;
+                    background-color: #6e7681;
+                }
+                .ci-badge.success { background-color: #238636; }
+                .ci-badge.failure { background-color: #da3633; }
+                .ci-badge.pending { background-color: #9e6a03; }
+                .run-status {
+                    font-weight: bold;
+                    text-transform: capitalize;
+                }
+                .run-status.success { color: #3fb950; }
+                .run-status.failure, .run-status.timed_out, .run-status.startup_failure { color: #f85149; }
+                .run-status.cancelled, .run-status.skipped { color: var(--vscode-descriptionForeground); }
+                .run-status.in_progress, .run-status.queued, .run-status.waiting, .run-status.pending { color: #d29922; }
+                .run-jobs {
+                    margin-top: 8px;
+                    padding-left: 12px;
+                    border-left: 2px solid var(--vscode-panel-border);
+                }
+                .job-steps {
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: 0.85em;
+                    margin: 4px 0 8px 0;
+                }
+                .merge-status {
+                    margin-bottom: 16px;
+                    padding: 8px 12px;
+                    border-radius: 4px;
+                    background-color: var(--vscode-textBlockQuote-background);
                 }
-                .github-checkout-btn:hover {
-                    background-color: var(--vscode-button-hoverBackground);
+                .merge-status.blocked {
+                    color: var(--vscode-errorForeground);
+                    border-left: 4px solid var(--vscode-errorForeground);
+                }
+                .merge-status.ready {
+                    border-left: 4px solid #238636;
+                }
+                .load-more {
+                    grid-column: 1 / -1;
+                    text-align: center;
+                    padding: 8px;
                 }
             </style>
         </head>
@@ -1071,43 +2956,75 @@ export class devDashProvider {
             <div class="header">
                 <div>
                     <h2 id="repo-title">GitHub Dev Dashboard</h2>
+                    <select id="repo-select" class="remote-select" style="display: none;" data-change="selectRepository" title="Repository shown in the dashboard"></select>
+                    <select id="remote-select" class="remote-select" style="display: none;" data-change="selectRemote" title="Remote shown in the dashboard"></select>
                     <div class="repo-stats" id="repo-stats" style="display: none;">
                         <span class="stat"><span class="stat-icon">⭐</span><span id="stars">0</span></span>
                         <span class="stat"><span class="stat-icon">🍴</span><span id="forks">0</span></span>
                         <span class="stat"><span class="stat-icon">👀</span><span id="watchers">0</span></span>
                         <span class="stat"><span class="stat-icon">🐛</span><span id="open-issues">0</span></span>
                     </div>
-                    <button class="refresh-btn" onclick="loadData()">Refresh</button>
+                    <button class="refresh-btn" data-action="loadData">Refresh</button>
                 </div>
                 <div class="user-info" id="user-info" style="display: none;">
                     <img class="user-avatar" id="user-avatar" src="" alt="User Avatar">
                     <span id="user-name">Loading...</span>
-                    <button class="switch-account-btn" onclick="switchAccount()" title="Switch GitHub Account">Switch</button>
+                    <button class="switch-account-btn" data-action="switchAccount" title="Switch GitHub Account">Switch</button>
+                    <span class="rate-limit" id="rate-limit" style="display: none;"></span>
                 </div>
             </div>
             
             <div class="tabs">
-                <button class="tab active" onclick="showTab('issues')">Issues</button>
-                <button class="tab-refresh" onclick="refreshIssues()">↻</button>
-                <button class="create-issue-btn" onclick="openCreateIssueModal()">+ Create Issue</button>
-                <button class="tab" onclick="showTab('prs')">Pull Requests</button>
-                <button class="tab-refresh" onclick="refreshPRs()">↻</button>
-                <button class="tab" onclick="showTab('activity')">Activity</button>
-                <button class="tab-refresh" onclick="loadActivity()">↻</button>
-                <button class="tab" onclick="showTab('local')">Local</button>
-                <button class="tab-refresh" onclick="loadLocal()">↻</button>
-                <button class="tab" onclick="showTab('docs')">Documentation</button>
+                <button class="tab active" data-action="showTab" data-args='["issues"]'>Issues</button>
+                <button class="tab-refresh" data-action="refreshIssues">↻</button>
+                <button class="create-issue-btn" data-action="openCreateIssueModal">+ Create Issue</button>
+                <button class="tab" data-action="showTab" data-args='["prs"]'>Pull Requests</button>
+                <button class="tab-refresh" data-action="refreshPRs">↻</button>
+                <button class="create-issue-btn" data-action="openCreatePRModal">+ New PR</button>
+                <button class="tab" data-action="showTab" data-args='["activity"]'>Activity</button>
+                <button class="tab-refresh" data-action="loadActivity">↻</button>
+                <button class="tab" data-action="showTab" data-args='["local"]'>Local</button>
+                <button class="tab-refresh" data-action="loadLocal">↻</button>
+                <button class="tab" data-action="showTab" data-args='["actions"]'>Actions</button>
+                <button class="tab-refresh" data-action="loadActions">↻</button>
+                <button class="tab" data-action="showTab" data-args='["mywork"]'>My Work</button>
+                <button class="tab-refresh" data-action="loadMyWork">↻</button>
+                <button class="tab" data-action="showTab" data-args='["notifications"]'>Notifications</button>
+                <button class="tab-refresh" data-action="loadNotifications">↻</button>
+                <button class="tab" data-action="showTab" data-args='["docs"]'>Documentation</button>
             </div>
             
             <div id="issues-tab" class="tab-content">
                 <div class="search-container">
-                    <input type="text" id="issues-search" class="search-input" placeholder="Search issues by title, author, or labels...">
+                    <input type="text" id="issues-search" class="search-input" placeholder="Search issues, e.g. is:open label:bug assignee:@me">
                     <select id="issues-status-filter" class="filter-select">
-                        <option value="">All Status</option>
-                        <option value="open">Open</option>
+                        <option value="all">All Status</option>
+                        <option value="open" selected>Open</option>
                         <option value="closed">Closed</option>
                     </select>
+                    <select id="issues-milestone-filter" class="filter-select">
+                        <option value="">All Milestones</option>
+                        <option value="none">No Milestone</option>
+                    </select>
+                    <select id="issues-sort" class="filter-select">
+                        <option value="">Default Sort</option>
+                        <option value="updated-desc">Recently Updated</option>
+                        <option value="created-desc">Newest</option>
+                        <option value="created-asc">Oldest</option>
+                        <option value="comments-desc">Most Commented</option>
+                    </select>
+                    <select id="issues-group" class="filter-select">
+                        <option value="">No Grouping</option>
+                        <option value="label">Group by Label</option>
+                        <option value="milestone">Group by Milestone</option>
+                        <option value="assignee">Group by Assignee</option>
+                        <option value="author">Group by Author</option>
+                    </select>
+                    <button class="action-btn" data-action="openLabelManager">Manage Labels</button>
+                    <button class="action-btn" data-action="saveView" data-args='["issues"]'>Save View</button>
                 </div>
+                <div id="issues-views" class="saved-views"></div>
+                <div id="milestone-progress" class="milestone-progress"></div>
                 <div id="issues-grid" class="grid">
                     <div class="loading">Loading issues...</div>
                 </div>
@@ -1115,14 +3032,36 @@ export class devDashProvider {
             
             <div id="prs-tab" class="tab-content" style="display: none;">
                 <div class="search-container">
-                    <input type="text" id="prs-search" class="search-input" placeholder="Search PRs by title, author, or branch...">
+                    <input type="text" id="prs-search" class="search-input" placeholder="Search PRs, e.g. is:open review-requested:@me -is:draft">
                     <select id="prs-status-filter" class="filter-select">
-                        <option value="">All Status</option>
-                        <option value="open">Open</option>
+                        <option value="all">All Status</option>
+                        <option value="open" selected>Open</option>
                         <option value="closed">Closed</option>
                         <option value="merged">Merged</option>
                     </select>
+                    <select id="prs-ci-filter" class="filter-select">
+                        <option value="">All Checks</option>
+                        <option value="success">Passing</option>
+                        <option value="failure">Failing</option>
+                        <option value="pending">Pending</option>
+                        <option value="none">No Checks</option>
+                    </select>
+                    <select id="prs-sort" class="filter-select">
+                        <option value="">Default Sort</option>
+                        <option value="updated-desc">Recently Updated</option>
+                        <option value="created-desc">Newest</option>
+                        <option value="created-asc">Oldest</option>
+                    </select>
+                    <select id="prs-group" class="filter-select">
+                        <option value="">No Grouping</option>
+                        <option value="label">Group by Label</option>
+                        <option value="assignee">Group by Assignee</option>
+                        <option value="author">Group by Author</option>
+                        <option value="base">Group by Base Branch</option>
+                    </select>
+                    <button class="action-btn" data-action="saveView" data-args='["prs"]'>Save View</button>
                 </div>
+                <div id="prs-views" class="saved-views"></div>
                 <div id="prs-grid" class="grid">
                     <div class="loading">Loading pull requests...</div>
                 </div>
@@ -1149,6 +3088,50 @@ export class devDashProvider {
                 </div>
             </div>
 
+            <div id="actions-tab" class="tab-content" style="display: none;">
+                <div class="search-container">
+                    <select id="actions-workflow-filter" class="filter-select">
+                        <option value="">All Workflows</option>
+                    </select>
+                    <button class="action-btn" id="run-workflow-btn" data-action="openDispatchDialog" disabled>Run workflow</button>
+                </div>
+                <div id="runs-list">
+                    <div class="loading">Loading workflow runs...</div>
+                </div>
+            </div>
+
+            <div id="mywork-tab" class="tab-content" style="display: none;">
+                <div class="search-container">
+                    <input type="text" id="mywork-search" class="search-input" placeholder="Search by title, author, or label...">
+                    <select id="mywork-category-filter" class="filter-select">
+                        <option value="">Everything</option>
+                        <option value="reviewRequested">Awaiting My Review</option>
+                        <option value="authored">My Pull Requests</option>
+                        <option value="assigned">Assigned Issues</option>
+                        <option value="mentioned">Mentions</option>
+                    </select>
+                </div>
+                <div id="mywork-list">
+                    <div class="loading">Loading your work...</div>
+                </div>
+            </div>
+
+            <div id="notifications-tab" class="tab-content" style="display: none;">
+                <div class="search-container">
+                    <select id="notifications-scope-filter" class="filter-select">
+                        <option value="repo">This Repository</option>
+                        <option value="all">All Repositories</option>
+                    </select>
+                    <select id="notifications-read-filter" class="filter-select">
+                        <option value="unread">Unread</option>
+                        <option value="all">Read and Unread</option>
+                    </select>
+                </div>
+                <div id="notifications-list">
+                    <div class="loading">Loading notifications...</div>
+                </div>
+            </div>
+
             <div id="docs-tab" class="tab-content" style="display: none;">
                 <div class="docs-content">
                     <h3>🚀 GitHub Dev Dashboard</h3>
@@ -1160,6 +3143,9 @@ export class devDashProvider {
                         <li><strong>Pull Requests:</strong> Browse PRs and checkout branches locally</li>
                         <li><strong>Repository Stats:</strong> View stars, forks, watchers, and open issues</li>
                         <li><strong>Local Git Operations:</strong> Monitor stashes and uncommitted changes</li>
+                        <li><strong>GitHub Actions:</strong> Browse workflow runs, jobs and logs, re-run, cancel and dispatch workflows</li>
+                        <li><strong>My Work:</strong> Review requests, your PRs, and issues assigned to or mentioning you across all repositories</li>
+                        <li><strong>Notifications:</strong> Your GitHub inbox for this repository or all repositories, grouped by reason, with mark read, done and unsubscribe</li>
                         <li><strong>Account Management:</strong> Switch between GitHub accounts</li>
                         <li><strong>Permission-based Actions:</strong> Smart UI based on repository access</li>
                     </ul>
@@ -1169,6 +3155,14 @@ export class devDashProvider {
                         <li><strong>Issues Tab:</strong> View all open issues, create new ones with the "+ Create Issue" button</li>
                         <li><strong>Pull Requests Tab:</strong> Browse PRs, checkout branches with the "Checkout" button</li>
                         <li><strong>Local Tab:</strong> Monitor your git stashes and uncommitted file changes</li>
+                        <li><strong>Actions Tab:</strong> Filter runs by workflow, expand jobs to see steps and logs, and use "Run workflow" for manual dispatch</li>
+                        <li><strong>My Work Tab:</strong> Results are grouped by repository; click a card to open it in the details panel</li>
+                        <li><strong>Labels &amp; Milestones:</strong> Labels use their GitHub colours; use 🏷 Labels on a card or in details to change them, Manage Labels to create, rename, recolour or delete them, and the milestone filter to see progress</li>
+                        <li><strong>Search:</strong> The Issues and PRs search boxes take GitHub query syntax such as <code>is:open label:bug assignee:@me sort:updated-desc</code>. Queries the loaded items can answer are filtered instantly; anything else, like <code>involves:</code> or another state than the one loaded, is sent to GitHub search. Type a qualifier name for suggestions of qualifiers, labels and users. On the PRs tab <code>status:failure</code>, <code>status:pending</code> and <code>status:success</code> filter by CI result</li>
+                        <li><strong>Saved Views:</strong> "Save View" stores the search, status, sort and grouping of the Issues or PRs tab as a chip for this repository. Use ⇪ on a chip to move it into <code>.vscode/devdash.json</code>; commit that file and the whole team gets the view (👥)</li>
+                        <li><strong>Priority:</strong> Cards are highlighted by the label names listed in the <code>devDash.priorityLabels</code> setting</li>
+                        <li><strong>Issue Details:</strong> Comments with Markdown preview, a timeline of label, assignment and reference events, inline editing, and close as completed / not planned or reopen</li>
+                        <li><strong>Notifications Tab:</strong> Click a notification title to open the issue or PR in the details panel; opening it marks it read</li>
                         <li><strong>Repository Stats:</strong> View repository metrics in the header section</li>
                         <li><strong>Account Switching:</strong> Use the "Switch" button to change GitHub accounts</li>
                     </ul>
@@ -1195,7 +3189,7 @@ export class devDashProvider {
                 <p>You don't have access to this repository with the current GitHub account.</p>
                 <p><strong>Repository:</strong> <span id="denied-repo"></span></p>
                 <p><strong>Current User:</strong> <span id="denied-user"></span></p>
-                <button class="refresh-btn" onclick="switchAccount()">Switch GitHub Account</button>
+                <button class="refresh-btn" data-action="switchAccount">Switch GitHub Account</button>
             </div>
 
             <!-- Create Issue Modal -->
@@ -1203,7 +3197,7 @@ export class devDashProvider {
                 <div class="modal-content">
                     <div class="modal-header">
                         <span class="modal-title">Create New Issue</span>
-                        <span class="close" onclick="closeCreateIssueModal()">&times;</span>
+                        <span class="close" data-action="closeCreateIssueModal">&times;</span>
                     </div>
                     <form id="create-issue-form">
                         <div class="form-group">
@@ -1226,19 +3220,73 @@ export class devDashProvider {
                             <small style="color: var(--vscode-descriptionForeground); margin-top: 4px; display: block;">Hold Ctrl/Cmd to select multiple assignees</small>
                         </div>
                         <div class="modal-actions">
-                            <button type="button" class="btn-secondary" onclick="closeCreateIssueModal()">Cancel</button>
+                            <button type="button" class="btn-secondary" data-action="closeCreateIssueModal">Cancel</button>
                             <button type="submit" class="btn-primary">Create Issue</button>
                         </div>
                     </form>
                 </div>
             </div>
 
+            <!-- Create PR Modal -->
+            <div id="create-pr-modal" class="modal">
+                <div class="modal-content">
+                    <div class="modal-header">
+                        <span class="modal-title">New Pull Request</span>
+                        <span class="close" data-action="closeCreatePRModal">&times;</span>
+                    </div>
+                    <form id="create-pr-form">
+                        <div id="pr-branch-warning" class="merge-status blocked" style="display: none;"></div>
+                        <div class="form-group" style="display: flex; gap: 8px;">
+                            <div style="flex: 1;">
+                                <label class="form-label" for="pr-base">Base</label>
+                                <input type="text" id="pr-base" class="form-input" required>
+                            </div>
+                            <div style="flex: 1;">
+                                <label class="form-label" for="pr-head">Compare (head)</label>
+                                <input type="text" id="pr-head" class="form-input" required>
+                            </div>
+                        </div>
+                        <div class="form-group">
+                            <label class="form-label" for="pr-title">Title *</label>
+                            <input type="text" id="pr-title" class="form-input" required>
+                        </div>
+                        <div class="form-group">
+                            <label class="form-label" for="pr-body">Description</label>
+                            <textarea id="pr-body" class="form-textarea" placeholder="Describe your changes (Markdown supported)"></textarea>
+                        </div>
+                        <div class="form-group">
+                            <label class="form-label" for="pr-reviewers">Reviewers</label>
+                            <select id="pr-reviewers" class="form-input" multiple size="4">
+                                <option value="">Loading collaborators...</option>
+                            </select>
+                            <small style="color: var(--vscode-descriptionForeground); margin-top: 4px; display: block;">Hold Ctrl/Cmd to select multiple reviewers</small>
+                        </div>
+                        <div class="form-group">
+                            <label class="form-label" for="pr-labels">Labels</label>
+                            <input type="text" id="pr-labels" class="form-input" placeholder="bug, enhancement (comma-separated)">
+                        </div>
+                        <div class="form-group">
+                            <label class="form-label" for="pr-linked-issue">Linked Issue</label>
+                            <input type="number" id="pr-linked-issue" class="form-input" min="1" list="pr-issue-options" placeholder="Issue number closed by this PR">
+                            <datalist id="pr-issue-options"></datalist>
+                        </div>
+                        <div class="form-group">
+                            <label><input type="checkbox" id="pr-draft"> Create as draft</label>
+                        </div>
+                        <div class="modal-actions">
+                            <button type="button" class="btn-secondary" data-action="closeCreatePRModal">Cancel</button>
+                            <button type="submit" class="btn-primary">Create Pull Request</button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+
             <!-- Checkout Branch Dialog -->
             <div id="checkout-dialog" class="modal">
                 <div class="modal-content">
                     <div class="modal-header">
                         <span class="modal-title">Checkout Branch for Issue</span>
-                        <span class="close" onclick="closeCheckoutDialog()">&times;</span>
+                        <span class="close" data-action="closeCheckoutDialog">&times;</span>
                     </div>
                     <div id="checkout-content">
                         <p>Create and checkout a new branch for issue <strong id="checkout-issue-number"></strong>:</p>
@@ -1250,30 +3298,358 @@ export class devDashProvider {
                             </small>
                         </div>
                         <div class="modal-actions">
-                            <button type="button" class="btn-secondary" onclick="closeCheckoutDialog()">Cancel</button>
-                            <button type="button" class="btn-primary" onclick="confirmCheckout()">Checkout Branch</button>
+                            <button type="button" class="btn-secondary" data-action="closeCheckoutDialog">Cancel</button>
+                            <button type="button" class="btn-primary" data-action="confirmCheckout">Checkout Branch</button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            <!-- Run Workflow Dialog -->
+            <div id="dispatch-dialog" class="modal">
+                <div class="modal-content">
+                    <div class="modal-header">
+                        <span class="modal-title">Run <span id="dispatch-workflow-name"></span></span>
+                        <span class="close" data-action="closeDispatchDialog">&times;</span>
+                    </div>
+                    <form id="dispatch-form">
+                        <div id="dispatch-fields">
+                            <div class="loading">Reading workflow inputs...</div>
+                        </div>
+                        <div class="modal-actions">
+                            <button type="button" class="btn-secondary" data-action="closeDispatchDialog">Cancel</button>
+                            <button type="submit" class="btn-primary" id="dispatch-confirm" disabled>Run workflow</button>
                         </div>
+                    </form>
+                </div>
+            </div>
+
+            <!-- Label Picker -->
+            <div id="label-picker-modal" class="modal">
+                <div class="modal-content">
+                    <div class="modal-header">
+                        <span class="modal-title">Labels for #<span id="label-picker-number"></span></span>
+                        <span class="close" data-action="closeLabelPicker">&times;</span>
+                    </div>
+                    <input type="text" id="label-picker-search" class="form-input" placeholder="Filter labels...">
+                    <div id="label-picker-list" class="label-list">
+                        <div class="loading">Loading labels...</div>
+                    </div>
+                    <div class="modal-actions">
+                        <button type="button" class="btn-secondary" data-action="closeLabelPicker">Cancel</button>
+                        <button type="button" class="btn-primary" data-action="applyLabelPicker">Apply</button>
+                    </div>
+                </div>
+            </div>
+
+            <!-- Label Manager -->
+            <div id="label-manager-modal" class="modal">
+                <div class="modal-content">
+                    <div class="modal-header">
+                        <span class="modal-title">Repository Labels</span>
+                        <span class="close" data-action="closeLabelManager">&times;</span>
+                    </div>
+                    <div id="label-manager-list" class="label-list">
+                        <div class="loading">Loading labels...</div>
+                    </div>
+                    <div class="label-manager-row">
+                        <input type="color" id="new-label-color" class="label-color-input" value="#ededed">
+                        <input type="text" id="new-label-name" class="form-input" placeholder="New label name">
+                        <input type="text" id="new-label-description" class="form-input" placeholder="Description (optional)">
+                        <button type="button" class="btn-primary" data-action="createLabel">Create</button>
+                    </div>
+                </div>
+            </div>
+
+            <!-- Merge PR Dialog -->
+            <div id="merge-dialog" class="modal">
+                <div class="modal-content">
+                    <div class="modal-header">
+                        <span class="modal-title">Merge Pull Request <span id="merge-pr-number"></span></span>
+                        <span class="close" data-action="closeMergeDialog">&times;</span>
+                    </div>
+                    <div id="merge-status" class="merge-status">Checking mergeability...</div>
+                    <div class="form-group">
+                        <label class="form-label" for="merge-method">Merge Strategy</label>
+                        <select id="merge-method" class="form-input">
+                            <option value="merge">Create a merge commit</option>
+                            <option value="squash">Squash and merge</option>
+                            <option value="rebase">Rebase and merge</option>
+                        </select>
+                    </div>
+                    <div class="form-group">
+                        <label class="form-label" for="merge-title">Commit Title</label>
+                        <input type="text" id="merge-title" class="form-input">
+                    </div>
+                    <div class="form-group">
+                        <label class="form-label" for="merge-message">Commit Message</label>
+                        <textarea id="merge-message" class="form-textarea" placeholder="Optional extended description"></textarea>
+                    </div>
+                    <div class="form-group">
+                        <label><input type="checkbox" id="merge-delete-branch"> Delete branch after merge</label>
+                    </div>
+                    <div class="modal-actions">
+                        <button type="button" class="btn-secondary" data-action="closeMergeDialog">Cancel</button>
+                        <button type="button" class="btn-primary" id="merge-confirm" data-action="confirmMerge" disabled>Merge</button>
                     </div>
                 </div>
             </div>
 
-            <script>
+            <script nonce="${nonce}">
                 const vscode = acquireVsCodeApi();
-                let currentData = { issues: [], prs: [] };
+                let currentData = { issues: [], prs: [], issuesPage: 1, prsPage: 1, issuesHasMore: false, prsHasMore: false };
+                let ciStatuses = {};
+                let branchStates = {};
+                let priorityLabels = ${JSON.stringify(devDashProvider._getPriorityLabels()).replace(/</g, '\\u003c')};
+                let repoLabels = null;
+                let milestones = [];
+                let labelPickerNumber = null;
+
+                /** Black or white text, whichever reads better on the label's own colour */
+                function renderLabel(label) {
+                    const color = /^[0-9a-f]{6}$/i.test(label.color || '') ? label.color : 'ededed';
+                    const r = parseInt(color.substring(0, 2), 16);
+                    const g = parseInt(color.substring(2, 4), 16);
+                    const b = parseInt(color.substring(4, 6), 16);
+                    const text = (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#000000' : '#ffffff';
+                    return '<span class="label" style="background-color: #' + color + '; color: ' + text + ';" title="' + escapeHtml(label.description || '') + '">' + escapeHtml(label.name) + '</span>';
+                }
+
+                function priorityFor(item) {
+                    const names = (item.labels || []).map(label => label.name.toLowerCase());
+                    return ['high', 'medium', 'low'].find(level =>
+                        (priorityLabels[level] || []).some(name => names.includes(name.toLowerCase()))
+                    );
+                }
+
+                function loadRepoLabels() {
+                    vscode.postMessage({ type: 'loadLabels' });
+                }
+
+                function findItem(number) {
+                    return (currentData.issues || []).concat(currentData.prs || []).find(item => item.number === number);
+                }
+
+                function openLabelPicker(number) {
+                    labelPickerNumber = number;
+                    document.getElementById('label-picker-number').textContent = number;
+                    document.getElementById('label-picker-search').value = '';
+                    document.getElementById('label-picker-modal').style.display = 'block';
+                    if (repoLabels) {
+                        renderLabelPicker();
+                    } else {
+                        loadRepoLabels();
+                    }
+                }
+
+                function closeLabelPicker() {
+                    document.getElementById('label-picker-modal').style.display = 'none';
+                    labelPickerNumber = null;
+                }
+
+                function renderLabelPicker() {
+                    const item = findItem(labelPickerNumber);
+                    if (!item || !repoLabels) return;
+                    const selected = (item.labels || []).map(label => label.name);
+                    const filter = document.getElementById('label-picker-search').value.toLowerCase();
+                    const list = repoLabels.filter(label => !filter || label.name.toLowerCase().includes(filter));
+                    document.getElementById('label-picker-list').innerHTML = list.length === 0
+                        ? '<div class="loading">No matching labels</div>'
+                        : list.map(label =>
+                            '<label class="label-option"><input type="checkbox" value="' + escapeHtml(label.name) + '"' + (selected.includes(label.name) ? ' checked' : '') + '>' + renderLabel(label) + '</label>'
+                        ).join('');
+                }
+
+                function applyLabelPicker() {
+                    const item = findItem(labelPickerNumber);
+                    if (!item) return;
+                    // Labels hidden by the filter keep their current state
+                    const visible = Array.from(document.querySelectorAll('#label-picker-list input'));
+                    const visibleNames = visible.map(input => input.value);
+                    const labels = (item.labels || []).map(label => label.name).filter(name => !visibleNames.includes(name))
+                        .concat(visible.filter(input => input.checked).map(input => input.value));
+                    vscode.postMessage({ type: 'setLabels', number: labelPickerNumber, labels });
+                    closeLabelPicker();
+                }
+
+                function openLabelManager() {
+                    document.getElementById('label-manager-modal').style.display = 'block';
+                    loadRepoLabels();
+                }
+
+                function closeLabelManager() {
+                    document.getElementById('label-manager-modal').style.display = 'none';
+                }
+
+                function renderLabelManager() {
+                    const container = document.getElementById('label-manager-list');
+                    if (!repoLabels || repoLabels.length === 0) {
+                        container.innerHTML = '<div class="loading">No labels yet</div>';
+                        return;
+                    }
+                    container.innerHTML = repoLabels.map((label, index) =>
+                        '<div class="label-manager-row">' +
+                            '<input type="color" id="label-color-' + index + '" class="label-color-input" value="#' + escapeHtml(label.color) + '">' +
+                            '<input type="text" id="label-name-' + index + '" class="form-input" value="' + escapeHtml(label.name) + '">' +
+                            '<input type="text" id="label-description-' + index + '" class="form-input" value="' + escapeHtml(label.description || '') + '" placeholder="Description">' +
+                            '<button type="button" class="action-btn" data-action="saveLabel" data-args="[' + index + ']">Save</button>' +
+                            '<button type="button" class="action-btn" data-action="deleteLabel" data-args="[' + index + ']">Delete</button>' +
+                        '</div>'
+                    ).join('');
+                }
+
+                function saveLabel(index) {
+                    const label = repoLabels[index];
+                    const newName = document.getElementById('label-name-' + index).value.trim();
+                    if (!newName) {
+                        alert('Label name cannot be empty');
+                        return;
+                    }
+                    vscode.postMessage({
+                        type: 'updateLabel',
+                        name: label.name,
+                        changes: {
+                            newName: newName !== label.name ? newName : undefined,
+                            color: document.getElementById('label-color-' + index).value,
+                            description: document.getElementById('label-description-' + index).value
+                        }
+                    });
+                }
+
+                function deleteLabel(index) {
+                    vscode.postMessage({ type: 'deleteLabel', name: repoLabels[index].name });
+                }
+
+                function createLabel() {
+                    const name = document.getElementById('new-label-name').value.trim();
+                    if (!name) {
+                        alert('Please enter a label name');
+                        return;
+                    }
+                    vscode.postMessage({
+                        type: 'createLabel',
+                        name,
+                        changes: {
+                            color: document.getElementById('new-label-color').value,
+                            description: document.getElementById('new-label-description').value.trim() || undefined
+                        }
+                    });
+                    document.getElementById('new-label-name').value = '';
+                    document.getElementById('new-label-description').value = '';
+                }
+
+                function renderMilestones() {
+                    const select = document.getElementById('issues-milestone-filter');
+                    const current = select.value;
+                    select.innerHTML = '<option value="">All Milestones</option><option value="none">No Milestone</option>' +
+                        milestones.map(milestone => '<option value="' + milestone.number + '">' + escapeHtml(milestone.title) + '</option>').join('');
+                    select.value = milestones.some(milestone => String(milestone.number) === current) || current === 'none' ? current : '';
+
+                    const shown = select.value && select.value !== 'none'
+                        ? milestones.filter(milestone => String(milestone.number) === select.value)
+                        : milestones;
+                    document.getElementById('milestone-progress').innerHTML = shown.map(milestone => {
+                        const total = milestone.open_issues + milestone.closed_issues;
+                        const percent = total === 0 ? 0 : Math.round(milestone.closed_issues / total * 100);
+                        const due = milestone.due_on ? ' • due ' + new Date(milestone.due_on).toLocaleDateString() : '';
+                        return '<div class="milestone-row">' +
+                            '<span class="milestone-title" data-action="selectMilestone" data-args="[' + milestone.number + ']">' + escapeHtml(milestone.title) + '</span>' +
+                            '<div class="progress-track"><div class="progress-fill" style="width: ' + percent + '%;"></div></div>' +
+                            '<span class="milestone-meta">' + percent + '% • ' + milestone.closed_issues + ' closed, ' + milestone.open_issues + ' open' + due + '</span>' +
+                        '</div>';
+                    }).join('');
+                }
+
+                function selectMilestone(number) {
+                    document.getElementById('issues-milestone-filter').value = String(number);
+                    renderMilestones();
+                    applyIssuesFilter();
+                }
+
+                function requestBranchStates() {
+                    const prs = (currentData.prs || []).map(pr => ({
+                        number: pr.number,
+                        headRef: pr.head.ref,
+                        headSha: pr.head.sha,
+                        sameRepository: !!pr.head.repo && !!pr.base.repo && pr.head.repo.full_name === pr.base.repo.full_name
+                    }));
+                    if (prs.length > 0) {
+                        vscode.postMessage({ type: 'loadPRBranchStates', prs });
+                    }
+                }
+
+                function switchPRBranch(prNumber, branch) {
+                    vscode.postMessage({ type: 'switchPRBranch', prNumber, branch });
+                }
+
+                function updatePRBranch(prNumber, branch) {
+                    vscode.postMessage({ type: 'updatePRBranch', prNumber, branch });
+                }
+
+                function renderBranchState(pr) {
+                    const state = branchStates[pr.number];
+                    if (!state || !state.localBranch) {
+                        return state && state.onRemote ? '<div class="branch-badge">⎇ ' + escapeHtml(pr.head.ref) + ' on remote, not checked out</div>' : '';
+                    }
+                    let sync = 'up to date';
+                    if (!state.headAvailable) {
+                        sync = 'PR head not fetched';
+                    } else if (state.ahead || state.behind) {
+                        sync = state.ahead + ' ahead, ' + state.behind + ' behind';
+                    }
+                    return '<div class="branch-badge' + (state.isCurrent ? ' current' : '') + '">' +
+                        (state.isCurrent ? '● Current branch ' : '⎇ ') + escapeHtml(state.localBranch) + ' • ' + sync +
+                    '</div>';
+                }
+
+                function renderBranchActions(pr) {
+                    const state = branchStates[pr.number];
+                    if (!state || !state.localBranch) {
+                        return '<button class="action-btn" data-action="checkoutPR" data-args="[' + pr.number + ']">Checkout</button>' +
+                            '<button class="github-checkout-btn" data-action="checkoutPRGitHub" data-args="[' + pr.number + ']">GitHub Style</button>';
+                    }
+                    const branchArg = escapeHtml(JSON.stringify(state.localBranch));
+                    let buttons = '';
+                    if (!state.isCurrent) {
+                        buttons += '<button class="action-btn" data-action="switchPRBranch" data-args="[' + pr.number + ', ' + branchArg + ']">Switch</button>';
+                    }
+                    if (!state.headAvailable || state.behind > 0) {
+                        buttons += '<button class="action-btn" data-action="updatePRBranch" data-args="[' + pr.number + ', ' + branchArg + ']">Update</button>';
+                    }
+                    return buttons;
+                }
 
                 function loadData() {
                     hideAccessDenied();
-                    vscode.postMessage({ type: 'loadData' });
+                    vscode.postMessage({
+                        type: 'loadData',
+                        issuesState: document.getElementById('issues-status-filter').value,
+                        prsState: document.getElementById('prs-status-filter').value
+                    });
                 }
 
                 function refreshIssues() {
                     document.getElementById('issues-grid').innerHTML = '<div class="loading">Loading issues...</div>';
-                    vscode.postMessage({ type: 'refreshIssues' });
+                    vscode.postMessage({ type: 'refreshIssues', state: document.getElementById('issues-status-filter').value });
                 }
 
                 function refreshPRs() {
                     document.getElementById('prs-grid').innerHTML = '<div class="loading">Loading pull requests...</div>';
-                    vscode.postMessage({ type: 'refreshPRs' });
+                    vscode.postMessage({ type: 'refreshPRs', state: document.getElementById('prs-status-filter').value });
+                }
+
+                function loadMoreIssues() {
+                    const button = document.querySelector('#issues-grid .load-more button');
+                    button.disabled = true;
+                    button.textContent = 'Loading...';
+                    vscode.postMessage({ type: 'loadMoreIssues', page: currentData.issuesPage + 1 });
+                }
+
+                function loadMorePRs() {
+                    const button = document.querySelector('#prs-grid .load-more button');
+                    button.disabled = true;
+                    button.textContent = 'Loading...';
+                    vscode.postMessage({ type: 'loadMorePRs', page: currentData.prsPage + 1 });
                 }
 
                 function switchAccount() {
@@ -1296,11 +3672,20 @@ export class devDashProvider {
                 }
 
                 function showTab(tabName) {
-                    document.querySelectorAll('.tab').forEach(tab => tab.classList.remove('active'));
+                    document.querySelectorAll('.tab').forEach(tab => tab.classList.toggle('active', JSON.parse(tab.dataset.args)[0] === tabName));
                     document.querySelectorAll('.tab-content').forEach(content => content.style.display = 'none');
-                    
-                    event.target.classList.add('active');
+
                     document.getElementById(tabName + '-tab').style.display = 'block';
+
+                    if (tabName === 'actions' && !actionsLoaded) {
+                        loadActions();
+                    }
+                    if (tabName === 'mywork' && !myWorkLoaded) {
+                        loadMyWork();
+                    }
+                    if (tabName === 'notifications' && !notificationsLoaded) {
+                        loadNotifications();
+                    }
                 }
 
                 function viewDetails(item) {
@@ -1338,6 +3723,256 @@ export class devDashProvider {
                     vscode.postMessage({ type: 'checkoutPRGitHub', prNumber });
                 }
 
+                let actionsData = { workflows: [], runs: [] };
+                let actionsLoaded = false;
+                let currentDispatch = null;
+
+                function loadActions() {
+                    actionsLoaded = true;
+                    document.getElementById('runs-list').innerHTML = '<div class="loading">Loading workflow runs...</div>';
+                    const workflowId = document.getElementById('actions-workflow-filter').value;
+                    vscode.postMessage({ type: 'loadActions', workflowId: workflowId ? Number(workflowId) : undefined });
+                }
+
+                function selectedWorkflowId() {
+                    const value = document.getElementById('actions-workflow-filter').value;
+                    return value ? Number(value) : undefined;
+                }
+
+                function escapeHtml(text) {
+                    return String(text == null ? '' : text)
+                        .replace(/&/g, '&amp;')
+                        .replace(/</g, '&lt;')
+                        .replace(/>/g, '&gt;')
+                        .replace(/"/g, '&quot;');
+                }
+
+                function renderWorkflowFilter(workflows, selectedId) {
+                    const select = document.getElementById('actions-workflow-filter');
+                    select.innerHTML = '<option value="">All Workflows</option>' + workflows.map(workflow =>
+                        '<option value="' + workflow.id + '"' + (workflow.id === selectedId ? ' selected' : '') + '>' + escapeHtml(workflow.name) + '</option>'
+                    ).join('');
+                    document.getElementById('run-workflow-btn').disabled = !selectedId;
+                }
+
+                function renderRuns(runs) {
+                    const container = document.getElementById('runs-list');
+                    if (runs.length === 0) {
+                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); text-align: center; padding: 20px;">No workflow runs found</div>';
+                        return;
+                    }
+
+                    container.innerHTML = runs.map(run => {
+                        const status = run.status === 'completed' ? (run.conclusion || 'completed') : run.status;
+                        const time = new Date(run.created_at).toLocaleDateString() + ' ' + new Date(run.created_at).toLocaleTimeString();
+                        let buttons = '<button class="action-btn" data-action="toggleRunJobs" data-args="[' + run.id + ']">Jobs</button>';
+                        if (run.status === 'completed' && ['failure', 'cancelled', 'timed_out'].includes(run.conclusion)) {
+                            buttons += '<button class="action-btn" data-action="rerunFailedJobs" data-args="[' + run.id + ']">Re-run failed jobs</button>';
+                        }
+                        if (run.status !== 'completed') {
+                            buttons += '<button class="action-btn" data-action="cancelRun" data-args="[' + run.id + ']">Cancel</button>';
+                        }
+                        buttons += '<a class="action-btn" href="' + run.html_url + '">Open on GitHub</a>';
+
+                        return '<div class="activity-item">' +
+                            '<div class="activity-header">' +
+                                '<span class="run-status ' + status + '">' + status.replace('_', ' ') + '</span>' +
+                                '<span class="activity-actor">' + escapeHtml(run.name) + ' #' + run.run_number + '</span>' +
+                                '<span class="activity-time">' + time + '</span>' +
+                            '</div>' +
+                            '<div class="activity-content">' + escapeHtml(run.display_title || '') + '</div>' +
+                            '<div class="activity-commit">' +
+                                escapeHtml(run.head_branch) + ' • ' + run.event + ' • ' + (run.actor ? escapeHtml(run.actor.login) : 'unknown') + ' • ' + run.head_sha.substring(0, 7) +
+                            '</div>' +
+                            '<div class="checkout-buttons">' + buttons + '</div>' +
+                            '<div class="run-jobs" id="run-jobs-' + run.id + '" style="display: none;"></div>' +
+                        '</div>';
+                    }).join('');
+                }
+
+                function toggleRunJobs(runId) {
+                    const container = document.getElementById('run-jobs-' + runId);
+                    if (container.style.display === 'block') {
+                        container.style.display = 'none';
+                        return;
+                    }
+                    container.style.display = 'block';
+                    container.innerHTML = '<div class="loading">Loading jobs...</div>';
+                    vscode.postMessage({ type: 'loadRunJobs', runId });
+                }
+
+                function renderRunJobs(runId, jobs) {
+                    const container = document.getElementById('run-jobs-' + runId);
+                    if (!container) return;
+                    if (jobs.length === 0) {
+                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground);">No jobs found</div>';
+                        return;
+                    }
+
+                    container.innerHTML = jobs.map(job => {
+                        const status = job.status === 'completed' ? (job.conclusion || 'completed') : job.status;
+                        const steps = (job.steps || []).map(step => {
+                            const stepStatus = step.status === 'completed' ? (step.conclusion || 'completed') : step.status;
+                            return '<div><span class="run-status ' + stepStatus + '">' + stepStatus.replace('_', ' ') + '</span> ' + step.number + '. ' + escapeHtml(step.name) + '</div>';
+                        }).join('');
+                        return '<div>' +
+                            '<span class="run-status ' + status + '">' + status.replace('_', ' ') + '</span> ' +
+                            '<strong>' + escapeHtml(job.name) + '</strong> ' +
+                            '<button class="action-btn" data-action="viewJobLogs" data-args="' + escapeHtml(JSON.stringify([job.id, job.name])) + '">View Logs</button>' +
+                            '<div class="job-steps">' + steps + '</div>' +
+                        '</div>';
+                    }).join('');
+                }
+
+                function viewJobLogs(jobId, jobName) {
+                    vscode.postMessage({ type: 'viewJobLogs', jobId, jobName });
+                }
+
+                function rerunFailedJobs(runId) {
+                    vscode.postMessage({ type: 'rerunFailedJobs', runId, workflowId: selectedWorkflowId() });
+                }
+
+                function cancelRun(runId) {
+                    vscode.postMessage({ type: 'cancelRun', runId, workflowId: selectedWorkflowId() });
+                }
+
+                function openDispatchDialog() {
+                    const workflowId = selectedWorkflowId();
+                    const workflow = actionsData.workflows.find(item => item.id === workflowId);
+                    if (!workflow) return;
+
+                    currentDispatch = { workflowId: workflow.id, inputs: [], ref: '' };
+                    document.getElementById('dispatch-workflow-name').textContent = workflow.name;
+                    document.getElementById('dispatch-fields').innerHTML = '<div class="loading">Reading workflow inputs...</div>';
+                    document.getElementById('dispatch-confirm').disabled = true;
+                    document.getElementById('dispatch-dialog').style.display = 'block';
+
+                    vscode.postMessage({ type: 'loadDispatchInputs', workflowId: workflow.id, workflowPath: workflow.path });
+                }
+
+                function closeDispatchDialog() {
+                    document.getElementById('dispatch-dialog').style.display = 'none';
+                    currentDispatch = null;
+                }
+
+                function renderDispatchInputs(workflowId, info) {
+                    if (!currentDispatch || currentDispatch.workflowId !== workflowId) return;
+                    const fields = document.getElementById('dispatch-fields');
+                    if (!info.dispatchable) {
+                        fields.innerHTML = '<div class="merge-status blocked">This workflow does not have a workflow_dispatch trigger.</div>';
+                        return;
+                    }
+
+                    currentDispatch.inputs = info.inputs;
+                    const refField = '<div class="form-group">' +
+                        '<label class="form-label" for="dispatch-ref">Branch or tag *</label>' +
+                        '<input type="text" id="dispatch-ref" class="form-input" required value="' + escapeHtml(info.ref) + '">' +
+                    '</div>';
+
+                    fields.innerHTML = refField + info.inputs.map(input => {
+                        const id = 'dispatch-input-' + input.name;
+                        const label = '<label class="form-label" for="' + escapeHtml(id) + '">' + escapeHtml(input.name) + (input.required ? ' *' : '') + '</label>';
+                        const help = input.description ? '<small style="color: var(--vscode-descriptionForeground); display: block;">' + escapeHtml(input.description) + '</small>' : '';
+                        let control;
+                        if (input.type === 'boolean') {
+                            control = '<input type="checkbox" id="' + escapeHtml(id) + '"' + (input.default === 'true' ? ' checked' : '') + '>';
+                        } else if (input.type === 'choice' && input.options) {
+                            control = '<select id="' + escapeHtml(id) + '" class="form-input">' + input.options.map(option =>
+                                '<option value="' + escapeHtml(option) + '"' + (option === input.default ? ' selected' : '') + '>' + escapeHtml(option) + '</option>'
+                            ).join('') + '</select>';
+                        } else {
+                            control = '<input type="' + (input.type === 'number' ? 'number' : 'text') + '" id="' + escapeHtml(id) + '" class="form-input"' +
+                                (input.required ? ' required' : '') + ' value="' + escapeHtml(input.default || '') + '">';
+                        }
+                        return '<div class="form-group">' + label + control + help + '</div>';
+                    }).join('');
+                    document.getElementById('dispatch-confirm').disabled = false;
+                }
+
+                function confirmDispatch(event) {
+                    event.preventDefault();
+                    if (!currentDispatch) return;
+
+                    const ref = document.getElementById('dispatch-ref').value.trim();
+                    if (!ref) {
+                        alert('Please enter a branch or tag');
+                        return;
+                    }
+
+                    // workflow_dispatch inputs are always sent as strings
+                    const inputs = {};
+                    currentDispatch.inputs.forEach(input => {
+                        const element = document.getElementById('dispatch-input-' + input.name);
+                        const value = input.type === 'boolean' ? String(element.checked) : element.value;
+                        if (value !== '') {
+                            inputs[input.name] = value;
+                        }
+                    });
+
+                    vscode.postMessage({ type: 'dispatchWorkflow', workflowId: currentDispatch.workflowId, ref, inputs });
+                    closeDispatchDialog();
+                }
+
+                let currentMergePR = null;
+
+                function openMergeDialog(prNumber) {
+                    const pr = (currentData.prs || []).find(item => item.number === prNumber);
+                    currentMergePR = prNumber;
+
+                    document.getElementById('merge-pr-number').textContent = '#' + prNumber;
+                    document.getElementById('merge-title').value = pr ? pr.title + ' (#' + prNumber + ')' : '';
+                    document.getElementById('merge-message').value = '';
+                    document.getElementById('merge-delete-branch').checked = false;
+                    document.getElementById('merge-confirm').disabled = true;
+                    const status = document.getElementById('merge-status');
+                    status.className = 'merge-status';
+                    status.textContent = 'Checking mergeability...';
+                    document.getElementById('merge-dialog').style.display = 'block';
+
+                    vscode.postMessage({ type: 'checkMergeability', prNumber });
+                }
+
+                function closeMergeDialog() {
+                    document.getElementById('merge-dialog').style.display = 'none';
+                    currentMergePR = null;
+                }
+
+                function showMergeability(prNumber, result) {
+                    if (prNumber !== currentMergePR) return;
+                    const status = document.getElementById('merge-status');
+                    if (result.mergeable) {
+                        status.className = 'merge-status ready';
+                        status.textContent = result.mergeableState === 'unstable'
+                            ? 'Ready to merge, but some non-required checks are failing.'
+                            : 'Ready to merge.';
+                    } else {
+                        status.className = 'merge-status blocked';
+                        status.textContent = result.reason || 'This pull request cannot be merged.';
+                    }
+                    document.getElementById('merge-confirm').disabled = !result.mergeable;
+                }
+
+                function confirmMerge() {
+                    if (!currentMergePR) return;
+
+                    vscode.postMessage({
+                        type: 'mergePR',
+                        prNumber: currentMergePR,
+                        options: {
+                            method: document.getElementById('merge-method').value,
+                            commitTitle: document.getElementById('merge-title').value.trim(),
+                            commitMessage: document.getElementById('merge-message').value.trim(),
+                            deleteBranch: document.getElementById('merge-delete-branch').checked
+                        }
+                    });
+
+                    closeMergeDialog();
+                }
+
+                function setPRState(prNumber, state) {
+                    vscode.postMessage({ type: 'setPRState', prNumber, state });
+                }
+
                 function createIssue(event) {
                     event.preventDefault();
                     
@@ -1367,6 +4002,83 @@ export class devDashProvider {
                     closeCreateIssueModal();
                 }
 
+                function openCreatePRModal() {
+                    document.getElementById('create-pr-form').reset();
+                    document.getElementById('pr-branch-warning').style.display = 'none';
+                    document.getElementById('pr-reviewers').innerHTML = '<option value="">Loading collaborators...</option>';
+                    document.getElementById('pr-issue-options').innerHTML = (currentData.issues || []).map(issue =>
+                        '<option value="' + issue.number + '">#' + issue.number + ' ' + escapeHtml(issue.title) + '</option>'
+                    ).join('');
+                    document.getElementById('create-pr-modal').style.display = 'block';
+                    document.getElementById('pr-title').focus();
+                    vscode.postMessage({ type: 'prepareCreatePR' });
+                }
+
+                function closeCreatePRModal() {
+                    document.getElementById('create-pr-modal').style.display = 'none';
+                }
+
+                function populateCreatePR(message) {
+                    const status = message.branchStatus;
+                    document.getElementById('pr-head').value = status.head || status.current;
+                    document.getElementById('pr-base').value = message.defaultBranch;
+                    if (!document.getElementById('pr-body').value) {
+                        document.getElementById('pr-body').value = message.template || '';
+                    }
+
+                    const warning = document.getElementById('pr-branch-warning');
+                    if (!status.upstream) {
+                        warning.textContent = 'Branch "' + status.current + '" has not been pushed. Push it before creating the pull request.';
+                        warning.style.display = 'block';
+                    } else if (status.ahead > 0) {
+                        warning.textContent = status.ahead + ' local commit(s) on "' + status.current + '" have not been pushed to ' + status.upstream + '.';
+                        warning.style.display = 'block';
+                    }
+
+                    const select = document.getElementById('pr-reviewers');
+                    select.innerHTML = message.collaborators.length === 0
+                        ? '<option value="">No collaborators found</option>'
+                        : message.collaborators.map(collaborator =>
+                            '<option value="' + collaborator.login + '">' + collaborator.login + '</option>'
+                        ).join('');
+                }
+
+                function createPR(event) {
+                    event.preventDefault();
+
+                    const title = document.getElementById('pr-title').value.trim();
+                    const head = document.getElementById('pr-head').value.trim();
+                    const base = document.getElementById('pr-base').value.trim();
+                    if (!title || !head || !base) {
+                        alert('Title, base and head branches are required');
+                        return;
+                    }
+                    if (head === base) {
+                        alert('Base and head branches must be different');
+                        return;
+                    }
+
+                    const labelsInput = document.getElementById('pr-labels').value.trim();
+                    const linkedIssue = parseInt(document.getElementById('pr-linked-issue').value, 10);
+                    vscode.postMessage({
+                        type: 'createPR',
+                        options: {
+                            title,
+                            head,
+                            base,
+                            body: document.getElementById('pr-body').value.trim(),
+                            draft: document.getElementById('pr-draft').checked,
+                            reviewers: Array.from(document.getElementById('pr-reviewers').selectedOptions)
+                                .map(option => option.value)
+                                .filter(value => value),
+                            labels: labelsInput ? labelsInput.split(',').map(l => l.trim()).filter(l => l) : []
+                        },
+                        linkedIssue: linkedIssue || undefined
+                    });
+
+                    closeCreatePRModal();
+                }
+
                 let currentCheckoutIssue = null;
                 let suggestedBranchName = null;
 
@@ -1397,7 +4109,7 @@ export class devDashProvider {
                     }
                     
                     // Validate branch name (basic validation)
-                    if (!/^[a-zA-Z0-9_\-\/]+$/.test(branchName)) {
+                    if (!/^[a-zA-Z0-9_\\-\\/]+$/.test(branchName)) {
                         alert('Branch name contains invalid characters. Use only letters, numbers, hyphens, underscores, and forward slashes.');
                         return;
                     }
@@ -1428,75 +4140,91 @@ export class devDashProvider {
                     });
                 }
 
-                function renderItems(items, containerId, type) {
+                function renderLoadMore(type) {
+                    if (type === 'issues' && currentData.issuesHasMore) {
+                        return '<div class="load-more"><button class="btn-secondary" data-action="loadMoreIssues">Load more issues</button></div>';
+                    }
+                    if (type === 'pull requests' && currentData.prsHasMore) {
+                        return '<div class="load-more"><button class="btn-secondary" data-action="loadMorePRs">Load more pull requests</button></div>';
+                    }
+                    return '';
+                }
+
+                function renderCIBadge(prNumber) {
+                    const status = ciStatuses[prNumber];
+                    if (!status || status.state === 'none') return '';
+                    const icons = { success: '✓', failure: '✗', pending: '●', neutral: '○' };
+                    const title = status.passed + ' passed, ' + status.failed + ' failed, ' + status.pending + ' pending';
+                    return '<span class="ci-badge ' + status.state + '" title="' + title + '">' +
+                        icons[status.state] + ' ' + status.passed + '/' + status.total +
+                    '</span>';
+                }
+
+                function renderItems(items, containerId, type, options) {
+                    // Cross-repository cards (My Work) skip actions that act on the current repository
+                    const crossRepo = !!(options && options.crossRepo);
+                    // GitHub search results are one page of the current repository; only the loaded list knows branch refs
+                    const searchResults = !!(options && options.searchResults);
+                    // Grouped grids share a single load more button under the last group
+                    const loadMore = crossRepo || searchResults || (options && options.grouped) ? '' : renderLoadMore(type);
                     const container = document.getElementById(containerId);
                     if (items.length === 0) {
-                        container.innerHTML = '<div class="loading">No ' + type + ' found</div>';
+                        container.innerHTML = '<div class="loading">No ' + type + ' found</div>' + loadMore;
                         return;
                     }
 
                     container.innerHTML = items.map(item => {
-                        const labels = item.labels ? item.labels.map(label => 
-                            '<span class="label">' + label.name + '</span>'
-                        ).join('') : '';
-
-                        // Determine priority class based on labels
-                        let priorityClass = '';
-                        if (item.labels) {
-                            const priorityLabel = item.labels.find(label => 
-                                ['priority: high', 'high priority', 'urgent', 'critical'].includes(label.name.toLowerCase()) ||
-                                label.name.toLowerCase().includes('high')
-                            );
-                            if (priorityLabel) {
-                                priorityClass = 'priority-high';
-                            } else {
-                                const mediumLabel = item.labels.find(label => 
-                                    ['priority: medium', 'medium priority', 'normal'].includes(label.name.toLowerCase()) ||
-                                    label.name.toLowerCase().includes('medium')
-                                );
-                                if (mediumLabel) {
-                                    priorityClass = 'priority-medium';
-                                } else {
-                                    const lowLabel = item.labels.find(label => 
-                                        ['priority: low', 'low priority', 'minor'].includes(label.name.toLowerCase()) ||
-                                        label.name.toLowerCase().includes('low')
-                                    );
-                                    if (lowLabel) {
-                                        priorityClass = 'priority-low';
-                                    }
-                                }
-                            }
-                        }
+                        const labels = item.labels ? item.labels.map(renderLabel).join('') : '';
+
+                        // Priority comes from the devDash.priorityLabels setting
+                        const priority = priorityFor(item);
+                        const priorityClass = priority ? 'priority-' + priority : '';
+                        const labelButton = '<button class="action-btn" data-action="openLabelPicker" data-args="[' + item.number + ']">🏷 Labels</button>';
 
                         let actions = '';
-                        if (type === 'pull requests') {
+                        if (crossRepo) {
+                            actions = '';
+                        } else if (type === 'pull requests') {
+                            let stateActions = '';
+                            if (item.state === 'open') {
+                                stateActions = '<button class="action-btn" data-action="openMergeDialog" data-args="[' + item.number + ']">Merge</button>' +
+                                    '<button class="action-btn" data-action="setPRState" data-args="' + escapeHtml(JSON.stringify([item.number, 'closed'])) + '">Close</button>';
+                            } else if (item.state === 'closed') {
+                                stateActions = '<button class="action-btn" data-action="setPRState" data-args="' + escapeHtml(JSON.stringify([item.number, 'open'])) + '">Reopen</button>';
+                            }
                             actions = '<div class="checkout-buttons">' +
-                                '<button class="action-btn" onclick="checkoutPR(' + item.number + ')">Checkout</button>' +
-                                '<button class="github-checkout-btn" onclick="checkoutPRGitHub(' + item.number + ')">GitHub Style</button>' +
+                                renderBranchActions(item) +
+                                stateActions +
+                                labelButton +
                             '</div>';
                         } else if (type === 'issues') {
                             actions = '<div class="issue-actions">' +
-                                '<button class="action-btn" onclick="openCheckoutDialog(' + item.number + ', \'issue-' + item.number + '\')">Checkout Branch</button>' +
+                                '<button class="action-btn" data-action="openCheckoutDialog" data-args="' + escapeHtml(JSON.stringify([item.number, 'issue-' + item.number])) + '">Checkout Branch</button>' +
+                                labelButton +
                             '</div>';
                         }
 
                         const preview = item.body_preview ? '<div class="item-preview">' + item.body_preview + '</div>' : '';
                         
-                        return '<div class="item ' + priorityClass + '" onclick="viewDetails(' + JSON.stringify({...item, type: type === 'issues' ? 'issue' : 'pr'}).replace(/"/g, '&quot;') + ')">' +
-                            '<div class="item-title">#' + item.number + ' ' + item.title + '</div>' +
+                        const showRepoState = type === 'pull requests' && !crossRepo;
+                        const isCurrentBranch = showRepoState && branchStates[item.number] && branchStates[item.number].isCurrent;
+                        return '<div class="item ' + priorityClass + (isCurrentBranch ? ' current-branch' : '') + '" data-action="viewDetails" data-args="' + escapeHtml(JSON.stringify([{...item, type: type === 'issues' ? 'issue' : 'pr'}])) + '">' +
+                            '<div class="item-title">#' + item.number + ' ' + escapeHtml(item.title) + '</div>' +
                             '<div class="author-info">' +
-                                '<img class="author-avatar" src="' + item.user.avatar_url + '" alt="' + item.user.login + '" onerror="this.style.display=\'none\'">' +
-                                '<span>by ' + item.user.login + '</span>' +
+                                '<img class="author-avatar" src="' + escapeHtml(item.user.avatar_url) + '" alt="' + escapeHtml(item.user.login) + '">' +
+                                '<span>by ' + escapeHtml(item.user.login) + '</span>' +
                             '</div>' +
                             '<div class="item-meta">' +
                                 new Date(item.created_at).toLocaleDateString() + ' • ' +
                                 item.state +
+                                (showRepoState ? renderCIBadge(item.number) : '') +
                             '</div>' +
+                            (showRepoState && !searchResults ? renderBranchState(item) : '') +
                             preview +
                             '<div class="item-labels">' + labels + '</div>' +
                             '<div class="actions">' + actions + '</div>' +
                         '</div>';
-                    }).join('');
+                    }).join('') + loadMore;
                 }
 
                 function updateUserInfo(user) {
@@ -1507,6 +4235,106 @@ export class devDashProvider {
                     }
                 }
 
+                function renderRemotes(remotes, selected) {
+                    const select = document.getElementById('remote-select');
+                    if (!remotes || remotes.length < 2) {
+                        select.style.display = 'none';
+                        return;
+                    }
+                    select.innerHTML = remotes.map(remote =>
+                        '<option value="' + escapeHtml(remote.name) + '"' + (remote.name === selected ? ' selected' : '') + '>' +
+                            escapeHtml(remote.name + ': ' + remote.owner + '/' + remote.repo + (remote.host !== 'github.com' ? ' (' + remote.host + ')' : '')) +
+                        '</option>'
+                    ).join('');
+                    select.style.display = 'inline-block';
+                }
+
+                function selectRemote(name) {
+                    vscode.postMessage({ type: 'selectRemote', remote: name });
+                }
+
+                function renderRepositories(repositories, selected) {
+                    const select = document.getElementById('repo-select');
+                    if (!repositories || repositories.length < 2) {
+                        select.style.display = 'none';
+                        return;
+                    }
+                    select.innerHTML = repositories.map(repository =>
+                        '<option value="' + escapeHtml(repository.path) + '"' + (repository.path === selected ? ' selected' : '') + '>' +
+                            escapeHtml(repository.name + ' (' + repository.owner + '/' + repository.repo + ')') +
+                        '</option>'
+                    ).join('');
+                    select.style.display = 'inline-block';
+                }
+
+                function selectRepository(repositoryPath) {
+                    vscode.postMessage({ type: 'selectRepository', path: repositoryPath });
+                }
+
+                function resetRepositoryState() {
+                    ciStatuses = {};
+                    branchStates = {};
+                    repoLabels = null;
+                    collaborators = null;
+                    savedViews = [];
+                    renderSavedViews();
+                    milestones = [];
+                    document.getElementById('issues-milestone-filter').value = '';
+                    renderMilestones();
+                    actionsLoaded = false;
+                    document.getElementById('issues-grid').innerHTML = '<div class="loading">Loading issues...</div>';
+                    document.getElementById('prs-grid').innerHTML = '<div class="loading">Loading pull requests...</div>';
+                    document.getElementById('activity-list').innerHTML = '<div class="loading">Loading recent activity...</div>';
+                    document.getElementById('stashes-list').innerHTML = '<div class="loading">Loading stashes...</div>';
+                    document.getElementById('changes-list').innerHTML = '<div class="loading">Loading changes...</div>';
+                    if (document.getElementById('actions-tab').style.display === 'block') {
+                        loadActions();
+                    }
+                    notificationsLoaded = false;
+                    if (document.getElementById('notifications-tab').style.display === 'block') {
+                        loadNotifications();
+                    }
+                }
+
+                let rateLimits = {};
+                let rateLimitTimer = null;
+                let cacheStats = null;
+
+                function formatTime(epochMs) {
+                    return new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+                }
+
+                function renderRateLimit() {
+                    const indicator = document.getElementById('rate-limit');
+                    const now = Date.now();
+                    const limited = Object.values(rateLimits)
+                        .filter(state => state.limitedUntil && state.limitedUntil > now)
+                        .sort((a, b) => b.limitedUntil - a.limitedUntil)[0];
+                    const core = rateLimits.core;
+
+                    indicator.className = 'rate-limit';
+                    if (limited) {
+                        indicator.classList.add('limited');
+                        indicator.textContent = 'Rate limited until ' + formatTime(limited.limitedUntil);
+                        indicator.title = 'GitHub ' + limited.resource + ' requests are paused; data shown may be cached';
+                        clearTimeout(rateLimitTimer);
+                        rateLimitTimer = setTimeout(renderRateLimit, limited.limitedUntil - now + 1000);
+                    } else if (core) {
+                        if (core.remaining < core.limit * 0.1) {
+                            indicator.classList.add('low');
+                        }
+                        indicator.textContent = 'API ' + core.remaining.toLocaleString() + '/' + core.limit.toLocaleString();
+                        indicator.title = 'GitHub API requests left this hour; resets at ' + formatTime(core.resetAt);
+                        if (cacheStats && cacheStats.notModified > 0) {
+                            indicator.title += '\\n' + cacheStats.notModified.toLocaleString() + ' unchanged responses were served from the cache without using quota';
+                        }
+                    } else {
+                        indicator.style.display = 'none';
+                        return;
+                    }
+                    indicator.style.display = 'inline-block';
+                }
+
                 function updateRepoStats(stats, repository) {
                     if (stats) {
                         document.getElementById('repo-title').textContent = repository || 'GitHub Dev Dashboard';
@@ -1518,137 +4346,738 @@ export class devDashProvider {
                     }
                 }
 
-                function renderLocalData(stashes, changes) {
-                    // Render stashes
-                    const stashesContainer = document.getElementById('stashes-list');
-                    if (stashes.length === 0) {
-                        stashesContainer.innerHTML = '<div style="color: var(--vscode-descriptionForeground);">No stashes found</div>';
-                    } else {
-                        stashesContainer.innerHTML = stashes.map(stash => 
-                            '<div style="margin-bottom: 4px; font-family: monospace;">' + stash + '</div>'
-                        ).join('');
+                function renderLocalData(stashes, changes) {
+                    // Render stashes
+                    const stashesContainer = document.getElementById('stashes-list');
+                    if (stashes.length === 0) {
+                        stashesContainer.innerHTML = '<div style="color: var(--vscode-descriptionForeground);">No stashes found</div>';
+                    } else {
+                        stashesContainer.innerHTML = stashes.map(stash => 
+                            '<div style="margin-bottom: 4px; font-family: monospace;">' + escapeHtml(stash) + '</div>'
+                        ).join('');
+                    }
+
+                    // Render changes
+                    const changesContainer = document.getElementById('changes-list');
+                    const allFiles = [
+                        ...changes.staged.map(file => ({ file, status: 'A', statusClass: 'staged' })),
+                        ...changes.modified.map(file => ({ file, status: 'M', statusClass: 'modified' })),
+                        ...changes.untracked.map(file => ({ file, status: '?', statusClass: 'untracked' }))
+                    ];
+
+                    if (allFiles.length === 0) {
+                        changesContainer.innerHTML = '<div style="color: var(--vscode-descriptionForeground);">No uncommitted changes</div>';
+                    } else {
+                        changesContainer.innerHTML = allFiles.map(item => 
+                            '<div class="file-item">' +
+                                '<span class="file-status ' + item.statusClass + '">' + item.status + '</span>' +
+                                '<span>' + escapeHtml(item.file) + '</span>' +
+                            '</div>'
+                        ).join('');
+                    }
+                }
+
+                function renderActivity(activities) {
+                    const container = document.getElementById('activity-list');
+                    if (activities.length === 0) {
+                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); text-align: center; padding: 20px;">No recent activity found</div>';
+                        return;
+                    }
+
+                    container.innerHTML = activities.map(activity => {
+                        const time = new Date(activity.created_at).toLocaleDateString() + ' ' + new Date(activity.created_at).toLocaleTimeString();
+                        let icon = '📝';
+                        let content = '';
+                        let actor = '';
+
+                        if (activity.type === 'commit') {
+                            icon = '💾';
+                            actor = activity.author?.login || 'Unknown';
+                            content = activity.message.split('\\n')[0]; // First line only
+                            return '<div class="activity-item">' +
+                                '<div class="activity-header">' +
+                                    '<span class="activity-icon">' + icon + '</span>' +
+                                    '<span class="activity-actor">' + escapeHtml(actor) + '</span>' +
+                                    '<span>committed</span>' +
+                                    '<span class="activity-time">' + time + '</span>' +
+                                '</div>' +
+                                '<div class="activity-content">' + escapeHtml(content) + '</div>' +
+                                '<div class="activity-commit">' + activity.sha.substring(0, 7) + '</div>' +
+                            '</div>';
+                        } else {
+                            actor = activity.actor?.login || 'Unknown';
+                            
+                            switch (activity.eventType) {
+                                case 'PushEvent':
+                                    icon = '⬆️';
+                                    content = 'pushed ' + (activity.payload.commits?.length || 0) + ' commit(s)';
+                                    break;
+                                case 'IssuesEvent':
+                                    icon = '🐛';
+                                    content = activity.payload.action + ' issue #' + activity.payload.issue?.number;
+                                    break;
+                                case 'PullRequestEvent':
+                                    icon = '📥';
+                                    content = activity.payload.action + ' pull request #' + activity.payload.pull_request?.number;
+                                    break;
+                                case 'CreateEvent':
+                                    icon = '🆕';
+                                    content = 'created ' + activity.payload.ref_type + (activity.payload.ref ? ' ' + activity.payload.ref : '');
+                                    break;
+                                case 'WatchEvent':
+                                    icon = '⭐';
+                                    content = 'starred the repository';
+                                    break;
+                                default:
+                                    content = activity.eventType.replace('Event', '');
+                            }
+
+                            return '<div class="activity-item">' +
+                                '<div class="activity-header">' +
+                                    '<span class="activity-icon">' + icon + '</span>' +
+                                    '<span class="activity-actor">' + escapeHtml(actor) + '</span>' +
+                                    '<span class="activity-time">' + time + '</span>' +
+                                '</div>' +
+                                '<div class="activity-content">' + escapeHtml(content) + '</div>' +
+                            '</div>';
+                        }
+                    }).join('');
+                }
+
+                const GROUP_PLACEHOLDERS = { label: 'No label', milestone: 'No milestone', assignee: 'Unassigned' };
+
+                function groupKeys(item, groupBy) {
+                    switch (groupBy) {
+                        case 'label':
+                            return (item.labels || []).map(label => label.name);
+                        case 'milestone':
+                            return item.milestone ? [item.milestone.title] : [];
+                        case 'assignee':
+                            return (item.assignees || []).map(user => user.login);
+                        case 'base':
+                            return item.base ? [item.base.ref] : [];
+                        default:
+                            return [item.user.login];
+                    }
+                }
+
+                /** Renders items under a heading per label, milestone, assignee, author or base branch; items with several labels or assignees appear in each group */
+                function renderGroupedItems(items, containerId, type, groupBy, options) {
+                    const container = document.getElementById(containerId);
+                    container.className = groupBy ? '' : 'grid';
+                    if (!groupBy || items.length === 0) {
+                        renderItems(items, containerId, type, options);
+                        return;
+                    }
+
+                    const placeholder = GROUP_PLACEHOLDERS[groupBy] || 'None';
+                    const groups = {};
+                    items.forEach(item => {
+                        const keys = groupKeys(item, groupBy);
+                        (keys.length ? keys : [placeholder]).forEach(key => (groups[key] = groups[key] || []).push(item));
+                    });
+                    const names = Object.keys(groups).sort((a, b) =>
+                        a === placeholder ? 1 : b === placeholder ? -1 : a.localeCompare(b));
+
+                    const crossRepo = !!(options && options.crossRepo);
+                    const searchResults = !!(options && options.searchResults);
+                    container.innerHTML = names.map((name, index) =>
+                        '<h3 class="mywork-section">' + escapeHtml(name) + ' (' + groups[name].length + ')</h3>' +
+                        '<div id="' + containerId + '-group-' + index + '" class="grid"></div>'
+                    ).join('') + (crossRepo || searchResults ? '' : renderLoadMore(type));
+                    names.forEach((name, index) =>
+                        renderItems(groups[name], containerId + '-group-' + index, type, Object.assign({}, options, { grouped: true })));
+                }
+
+                let savedViews = [];
+
+                function viewState(tab) {
+                    return {
+                        tab,
+                        query: document.getElementById(tab + '-search').value.trim(),
+                        status: document.getElementById(tab + '-status-filter').value,
+                        sort: document.getElementById(tab + '-sort').value,
+                        groupBy: document.getElementById(tab + '-group').value
+                    };
+                }
+
+                function isActiveView(view) {
+                    const state = viewState(view.tab);
+                    return state.query === view.query && state.status === view.status
+                        && state.sort === (view.sort || '') && state.groupBy === (view.groupBy || '');
+                }
+
+                function renderSavedViews() {
+                    ['issues', 'prs'].forEach(tab => {
+                        document.getElementById(tab + '-views').innerHTML = savedViews.map((view, index) => {
+                            if (view.tab !== tab) {
+                                return '';
+                            }
+                            const title = (view.shared ? 'Shared in .vscode/devdash.json' : 'Saved in this workspace') + (view.query ? ': ' + view.query : '');
+                            const share = view.shared ? '' : '<span class="view-chip-action" title="Share with the team" data-action="shareView" data-args="[' + index + ']">⇪</span>';
+                            return '<span class="view-chip' + (isActiveView(view) ? ' active' : '') + '" title="' + escapeHtml(title) + '" data-action="applyView" data-args="[' + index + ']">' +
+                                (view.shared ? '👥 ' : '') + escapeHtml(view.name) + share +
+                                '<span class="view-chip-action" title="Delete view" data-action="deleteView" data-args="[' + index + ']">×</span>' +
+                            '</span>';
+                        }).join('');
+                    });
+                }
+
+                function saveView(tab) {
+                    vscode.postMessage({ type: 'saveView', view: viewState(tab) });
+                }
+
+                function applyView(index) {
+                    const view = savedViews[index];
+                    const statusSelect = document.getElementById(view.tab + '-status-filter');
+                    const statusChanged = statusSelect.value !== view.status;
+                    document.getElementById(view.tab + '-search').value = view.query;
+                    statusSelect.value = view.status;
+                    document.getElementById(view.tab + '-sort').value = view.sort || '';
+                    document.getElementById(view.tab + '-group').value = view.groupBy || '';
+                    showTab(view.tab);
+                    // Only the selected state is loaded, so a different status needs a refetch
+                    if (statusChanged) {
+                        view.tab === 'issues' ? refreshIssues() : refreshPRs();
+                    } else {
+                        view.tab === 'issues' ? applyIssuesFilter() : applyPRsFilter();
+                    }
+                }
+
+                function deleteView(index) {
+                    vscode.postMessage({ type: 'deleteView', name: savedViews[index].name, shared: !!savedViews[index].shared });
+                }
+
+                function shareView(index) {
+                    vscode.postMessage({ type: 'shareView', name: savedViews[index].name });
+                }
+
+                /** Adds the sort dropdown's order unless the query already has its own sort: qualifier */
+                function withSort(query, sort) {
+                    return sort && !/(^|\\s)sort:/.test(query) ? (query + ' sort:' + sort).trim() : query;
+                }
+
+                /** Qualifiers offered by autocomplete, with their fixed values where GitHub defines them */
+                const SEARCH_QUALIFIERS = {
+                    'is': ['open', 'closed', 'merged', 'unmerged', 'draft', 'issue', 'pr'],
+                    'no': ['assignee', 'label', 'milestone'],
+                    'label': null,
+                    'author': null,
+                    'assignee': null,
+                    'review-requested': null,
+                    'mentions': null,
+                    'involves': null,
+                    'commenter': null,
+                    'reviewed-by': null,
+                    'milestone': null,
+                    'review': ['none', 'required', 'approved', 'changes_requested'],
+                    'in': ['title', 'body', 'comments'],
+                    'created': null,
+                    'updated': null,
+                    'comments': null,
+                    'head': null,
+                    'base': null,
+                    'status': ['success', 'failure', 'pending'],
+                    'sort': ['created-desc', 'created-asc', 'updated-desc', 'updated-asc', 'comments-desc', 'comments-asc']
+                };
+                const USER_QUALIFIERS = ['author', 'assignee', 'review-requested', 'mentions', 'involves', 'commenter', 'reviewed-by'];
+                let collaborators = null;
+                let searchTimers = {};
+                let pendingSearches = {};
+
+                function tokenizeQuery(query) {
+                    return query.match(/-?[\\w-]+:"[^"]*"?|"[^"]*"?|\\S+/g) || [];
+                }
+
+                function unquote(value) {
+                    return value.replace(/^"|"$/g, '');
+                }
+
+                /** Splits a GitHub style query into free text terms and qualifiers such as -label:"needs review" */
+                function parseQuery(query) {
+                    const parsed = { terms: [], qualifiers: [] };
+                    tokenizeQuery(query).forEach(token => {
+                        const match = token.match(/^(-?)([a-z-]+):(.*)$/i);
+                        if (match && SEARCH_QUALIFIERS.hasOwnProperty(match[2].toLowerCase()) && match[3]) {
+                            parsed.qualifiers.push({ key: match[2].toLowerCase(), value: unquote(match[3]), negated: match[1] === '-' });
+                        } else {
+                            parsed.terms.push(unquote(token).toLowerCase());
+                        }
+                    });
+                    return parsed;
+                }
+
+                function currentLogin() {
+                    return currentData.user ? currentData.user.login.toLowerCase() : '';
+                }
+
+                /** Whether the loaded items are enough to answer the query, or GitHub search has to */
+                function canEvaluateLocally(parsed, type, statusFilter) {
+                    const isPR = type === 'pull requests';
+                    return parsed.qualifiers.every(qualifier => {
+                        const value = qualifier.value.toLowerCase();
+                        switch (qualifier.key) {
+                            case 'is':
+                                if (value === 'open') {
+                                    return statusFilter === 'open' || statusFilter === 'all';
+                                }
+                                if (value === 'closed') {
+                                    return statusFilter === 'closed' || statusFilter === 'all';
+                                }
+                                if (value === 'merged') {
+                                    return !isPR || ['closed', 'merged', 'all'].includes(statusFilter);
+                                }
+                                if (value === 'unmerged') {
+                                    return !isPR || statusFilter === 'all';
+                                }
+                                return ['draft', 'issue', 'pr'].includes(value);
+                            case 'no':
+                                return ['assignee', 'label', 'milestone'].includes(value);
+                            case 'comments':
+                                // The pull request list does not include comment counts
+                                return !isPR;
+                            case 'status':
+                                // CI results are loaded for listed PRs; issues have none and simply do not match
+                                return true;
+                            case 'sort': {
+                                const field = value.replace(/-(asc|desc)$/, '');
+                                return ['created', 'updated'].includes(field) || (field === 'comments' && !isPR);
+                            }
+                            case 'label':
+                            case 'author':
+                            case 'assignee':
+                            case 'review-requested':
+                            case 'milestone':
+                            case 'created':
+                            case 'updated':
+                            case 'head':
+                            case 'base':
+                                return true;
+                            default:
+                                return false;
+                        }
+                    });
+                }
+
+                /** Evaluates >, >=, <, <=, a..b and exact comparisons as GitHub does for dates and counts */
+                function compareRange(actual, expression) {
+                    const range = expression.match(/^(.+)\\.\\.(.+)$/);
+                    if (range) {
+                        return (range[1] === '*' || actual >= range[1]) && (range[2] === '*' || actual <= range[2]);
+                    }
+                    const comparison = expression.match(/^(>=|<=|>|<)(.+)$/);
+                    if (!comparison) {
+                        return actual === expression;
+                    }
+                    const target = comparison[2];
+                    switch (comparison[1]) {
+                        case '>=': return actual >= target;
+                        case '<=': return actual <= target;
+                        case '>': return actual > target;
+                        default: return actual < target;
+                    }
+                }
+
+                function compareCount(actual, expression) {
+                    // Pad counts so the string comparison in compareRange orders them numerically
+                    const pad = number => String(number).padStart(10, '0');
+                    return compareRange(pad(actual || 0), expression.replace(/\\d+/g, pad));
+                }
+
+                function matchesQualifier(item, qualifier, type) {
+                    const value = qualifier.value.toLowerCase();
+                    const login = value === '@me' ? currentLogin() : value;
+                    const logins = users => (users || []).some(user => user.login.toLowerCase() === login);
+                    switch (qualifier.key) {
+                        case 'is':
+                            switch (value) {
+                                case 'open': return item.state === 'open';
+                                case 'closed': return item.state === 'closed' || item.state === 'merged';
+                                case 'merged': return item.state === 'merged';
+                                case 'unmerged': return type === 'pull requests' && item.state !== 'merged';
+                                case 'draft': return !!item.draft;
+                                case 'issue': return type === 'issues';
+                                default: return type === 'pull requests';
+                            }
+                        case 'no':
+                            if (value === 'assignee') {
+                                return !(item.assignees && item.assignees.length);
+                            }
+                            return value === 'label' ? !(item.labels && item.labels.length) : !item.milestone;
+                        case 'label':
+                            // A comma separated list matches any of the labels
+                            return value.split(',').some(name => (item.labels || []).some(label => label.name.toLowerCase() === name));
+                        case 'author':
+                            return item.user.login.toLowerCase() === login;
+                        case 'assignee':
+                            return logins(item.assignees);
+                        case 'review-requested':
+                            return logins(item.requested_reviewers);
+                        case 'milestone':
+                            return !!item.milestone && item.milestone.title.toLowerCase() === value;
+                        case 'created':
+                            return compareRange(item.created_at.substring(0, 10), value);
+                        case 'updated':
+                            return compareRange(item.updated_at.substring(0, 10), value);
+                        case 'comments':
+                            return compareCount(item.comments, value);
+                        case 'status':
+                            return type === 'pull requests' && (ciStatuses[item.number] ? ciStatuses[item.number].state : 'none') === value;
+                        case 'head':
+                            return !!item.head && item.head.ref.toLowerCase() === value;
+                        case 'base':
+                            return !!item.base && item.base.ref.toLowerCase() === value;
+                        default:
+                            return true;
+                    }
+                }
+
+                function sortItems(items, parsed) {
+                    const sort = parsed.qualifiers.filter(qualifier => qualifier.key === 'sort').pop();
+                    if (!sort) {
+                        return items;
+                    }
+                    const [field, direction] = sort.value.toLowerCase().split('-');
+                    const key = { created: 'created_at', updated: 'updated_at', comments: 'comments' }[field];
+                    const sign = direction === 'asc' ? 1 : -1;
+                    return items.slice().sort((a, b) => (a[key] > b[key] ? 1 : a[key] < b[key] ? -1 : 0) * sign);
+                }
+
+                function filterItems(items, searchTerm, statusFilter, type) {
+                    const parsed = parseQuery(searchTerm || '');
+                    return sortItems(items.filter(item => {
+                        const matchesSearch = parsed.terms.every(term =>
+                            item.title.toLowerCase().includes(term) ||
+                            item.user.login.toLowerCase().includes(term) ||
+                            (item.labels && item.labels.some(label => label.name.toLowerCase().includes(term))));
+
+                        // An explicit is: state in the query replaces the status dropdown
+                        const hasState = parsed.qualifiers.some(qualifier => qualifier.key === 'is' && ['open', 'closed', 'merged', 'unmerged'].includes(qualifier.value.toLowerCase()));
+                        const matchesStatus = hasState || !statusFilter || statusFilter === 'all' || item.state === statusFilter;
+
+                        return matchesSearch && matchesStatus
+                            && parsed.qualifiers.every(qualifier => matchesQualifier(item, qualifier, type) !== qualifier.negated);
+                    }), parsed);
+                }
+
+                /** Hands queries the loaded items cannot answer to GitHub search, debounced while typing */
+                function searchRemotely(kind, query, statusFilter) {
+                    const parsed = parseQuery(query);
+                    const hasState = parsed.qualifiers.some(qualifier => qualifier.key === 'is' && ['open', 'closed', 'merged', 'unmerged'].includes(qualifier.value.toLowerCase()));
+                    const fullQuery = hasState || statusFilter === 'all' ? query : query + ' is:' + statusFilter;
+                    const containerId = kind === 'issues' ? 'issues-grid' : 'prs-grid';
+                    document.getElementById(containerId).innerHTML = '<div class="loading">Searching GitHub...</div>';
+                    pendingSearches[kind] = fullQuery.trim();
+                    // Each tab debounces on its own, so typing in one never cancels the other's search
+                    clearTimeout(searchTimers[kind]);
+                    searchTimers[kind] = setTimeout(() => vscode.postMessage({ type: 'searchItems', kind, query: pendingSearches[kind] }), 500);
+                }
+
+                function showSearchResults(message) {
+                    // Ignore answers to queries the user has typed past
+                    if (message.query !== pendingSearches[message.kind]) {
+                        return;
+                    }
+                    const containerId = message.kind === 'issues' ? 'issues-grid' : 'prs-grid';
+                    if (message.type === 'searchFailed') {
+                        document.getElementById(containerId).innerHTML = '<div class="loading">Search failed: ' + escapeHtml(message.message) + '</div>';
+                        return;
+                    }
+                    const groupBy = document.getElementById(message.kind + '-group').value;
+                    renderGroupedItems(message.items, containerId, message.kind === 'issues' ? 'issues' : 'pull requests', groupBy, { searchResults: true });
+                }
+
+                function searchSuggestions(token) {
+                    const match = token.match(/^(-?)([a-z-]*)(?::(.*))?$/i);
+                    if (!match || (!match[2] && match[3] === undefined)) {
+                        return [];
+                    }
+                    const prefix = match[1];
+                    const key = match[2].toLowerCase();
+                    if (match[3] === undefined) {
+                        return Object.keys(SEARCH_QUALIFIERS)
+                            .filter(name => name.startsWith(key) && name !== key)
+                            .map(name => ({ text: prefix + name + ':', label: name + ':', complete: false }));
+                    }
+
+                    let values = SEARCH_QUALIFIERS[key];
+                    if (key === 'label') {
+                        values = (repoLabels || []).map(label => label.name);
+                    } else if (key === 'milestone') {
+                        values = milestones.map(milestone => milestone.title);
+                    } else if (USER_QUALIFIERS.includes(key)) {
+                        const logins = ['@me'].concat((collaborators || []).map(user => user.login));
+                        (currentData.issues || []).concat(currentData.prs || []).forEach(item => logins.push(item.user.login));
+                        values = logins.filter((login, index) => logins.indexOf(login) === index);
+                    }
+                    const partial = unquote(match[3]).toLowerCase();
+                    return (values || [])
+                        .filter(value => value.toLowerCase().startsWith(partial))
+                        .slice(0, 8)
+                        .map(value => ({
+                            text: prefix + key + ':' + (/\\s/.test(value) ? '"' + value + '"' : value),
+                            label: value,
+                            complete: true
+                        }));
+                }
+
+                /** Qualifier, label and user completion under a search box, driven by the token at the end of the input */
+                function attachSearchAutocomplete(inputId) {
+                    const input = document.getElementById(inputId);
+                    const list = document.createElement('div');
+                    list.className = 'autocomplete-list';
+                    input.insertAdjacentElement('afterend', list);
+                    let suggestions = [];
+                    let active = 0;
+
+                    const hide = () => {
+                        suggestions = [];
+                        list.style.display = 'none';
+                    };
+                    const render = () => {
+                        list.innerHTML = suggestions.map((suggestion, index) =>
+                            '<div class="autocomplete-item' + (index === active ? ' active' : '') + '" data-index="' + index + '">' + escapeHtml(suggestion.label) + '</div>'
+                        ).join('');
+                        list.style.left = input.offsetLeft + 'px';
+                        list.style.top = (input.offsetTop + input.offsetHeight) + 'px';
+                        list.style.display = suggestions.length ? 'block' : 'none';
+                    };
+                    const update = () => {
+                        const value = input.value;
+                        const token = /\\s$/.test(value) ? '' : (tokenizeQuery(value).pop() || '');
+                        suggestions = searchSuggestions(token);
+                        active = 0;
+                        render();
+                    };
+                    const accept = suggestion => {
+                        const value = input.value;
+                        const token = tokenizeQuery(value).pop() || '';
+                        input.value = value.substring(0, value.length - token.length) + suggestion.text + (suggestion.complete ? ' ' : '');
+                        input.dispatchEvent(new Event('input'));
+                        input.focus();
+                    };
+
+                    input.addEventListener('input', update);
+                    input.addEventListener('focus', () => {
+                        if (!repoLabels) {
+                            loadRepoLabels();
+                        }
+                        if (!collaborators) {
+                            collaborators = [];
+                            vscode.postMessage({ type: 'loadCollaborators' });
+                        }
+                    });
+                    input.addEventListener('blur', hide);
+                    input.addEventListener('keydown', event => {
+                        if (!suggestions.length) {
+                            return;
+                        }
+                        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                            active = (active + (event.key === 'ArrowDown' ? 1 : suggestions.length - 1)) % suggestions.length;
+                            render();
+                            event.preventDefault();
+                        } else if (event.key === 'Enter' || event.key === 'Tab') {
+                            accept(suggestions[active]);
+                            event.preventDefault();
+                        } else if (event.key === 'Escape') {
+                            hide();
+                        }
+                    });
+                    // mousedown fires before the input loses focus and hides the list
+                    list.addEventListener('mousedown', event => {
+                        const entry = event.target.closest('.autocomplete-item');
+                        if (entry) {
+                            event.preventDefault();
+                            accept(suggestions[Number(entry.dataset.index)]);
+                        }
+                    });
+                }
+
+                function applyIssuesFilter() {
+                    renderSavedViews();
+                    const searchTerm = withSort(document.getElementById('issues-search').value, document.getElementById('issues-sort').value);
+                    const statusFilter = document.getElementById('issues-status-filter').value;
+                    const milestoneFilter = document.getElementById('issues-milestone-filter').value;
+                    delete pendingSearches.issues;
+                    if (!canEvaluateLocally(parseQuery(searchTerm), 'issues', statusFilter)) {
+                        searchRemotely('issues', searchTerm, statusFilter);
+                        return;
                     }
+                    const filteredIssues = filterItems(currentData.issues || [], searchTerm, statusFilter, 'issues')
+                        .filter(issue => !milestoneFilter
+                            || (milestoneFilter === 'none' ? !issue.milestone : issue.milestone && String(issue.milestone.number) === milestoneFilter));
+                    renderGroupedItems(filteredIssues, 'issues-grid', 'issues', document.getElementById('issues-group').value);
+                }
 
-                    // Render changes
-                    const changesContainer = document.getElementById('changes-list');
-                    const allFiles = [
-                        ...changes.staged.map(file => ({ file, status: 'A', statusClass: 'staged' })),
-                        ...changes.modified.map(file => ({ file, status: 'M', statusClass: 'modified' })),
-                        ...changes.untracked.map(file => ({ file, status: '?', statusClass: 'untracked' }))
-                    ];
+                const MY_WORK_SECTIONS = [
+                    { key: 'reviewRequested', title: 'Awaiting My Review', type: 'pull requests' },
+                    { key: 'authored', title: 'My Pull Requests', type: 'pull requests' },
+                    { key: 'assigned', title: 'Assigned Issues', type: 'issues' },
+                    { key: 'mentioned', title: 'Mentions', type: 'issues' }
+                ];
+                let myWork = null;
+                let myWorkLoaded = false;
 
-                    if (allFiles.length === 0) {
-                        changesContainer.innerHTML = '<div style="color: var(--vscode-descriptionForeground);">No uncommitted changes</div>';
-                    } else {
-                        changesContainer.innerHTML = allFiles.map(item => 
-                            '<div class="file-item">' +
-                                '<span class="file-status ' + item.statusClass + '">' + item.status + '</span>' +
-                                '<span>' + item.file + '</span>' +
-                            '</div>'
-                        ).join('');
-                    }
+                function loadMyWork() {
+                    myWorkLoaded = true;
+                    document.getElementById('mywork-list').innerHTML = '<div class="loading">Loading your work...</div>';
+                    vscode.postMessage({ type: 'loadMyWork' });
                 }
 
-                function renderActivity(activities) {
-                    const container = document.getElementById('activity-list');
-                    if (activities.length === 0) {
-                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); text-align: center; padding: 20px;">No recent activity found</div>';
+                function applyMyWorkFilter() {
+                    if (!myWork) {
                         return;
                     }
+                    const searchTerm = document.getElementById('mywork-search').value;
+                    const category = document.getElementById('mywork-category-filter').value;
+                    const groups = [];
+                    let html = '';
 
-                    container.innerHTML = activities.map(activity => {
-                        const time = new Date(activity.created_at).toLocaleDateString() + ' ' + new Date(activity.created_at).toLocaleTimeString();
-                        let icon = '📝';
-                        let content = '';
-                        let actor = '';
+                    MY_WORK_SECTIONS.filter(section => !category || section.key === category).forEach(section => {
+                        const items = filterItems(myWork[section.key] || [], searchTerm, 'all', section.type);
+                        html += '<h3 class="mywork-section">' + section.title + ' (' + items.length + ')</h3>';
+                        if (items.length === 0) {
+                            html += '<div class="loading">Nothing here</div>';
+                            return;
+                        }
 
-                        if (activity.type === 'commit') {
-                            icon = '💾';
-                            actor = activity.author?.login || 'Unknown';
-                            content = activity.message.split('\\n')[0]; // First line only
-                            return '<div class="activity-item">' +
-                                '<div class="activity-header">' +
-                                    '<span class="activity-icon">' + icon + '</span>' +
-                                    '<span class="activity-actor">' + actor + '</span>' +
-                                    '<span>committed</span>' +
-                                    '<span class="activity-time">' + time + '</span>' +
-                                '</div>' +
-                                '<div class="activity-content">' + content + '</div>' +
-                                '<div class="activity-commit">' + activity.sha.substring(0, 7) + '</div>' +
-                            '</div>';
-                        } else {
-                            actor = activity.actor?.login || 'Unknown';
-                            
-                            switch (activity.eventType) {
-                                case 'PushEvent':
-                                    icon = '⬆️';
-                                    content = 'pushed ' + (activity.payload.commits?.length || 0) + ' commit(s)';
-                                    break;
-                                case 'IssuesEvent':
-                                    icon = '🐛';
-                                    content = activity.payload.action + ' issue #' + activity.payload.issue?.number;
-                                    break;
-                                case 'PullRequestEvent':
-                                    icon = '📥';
-                                    content = activity.payload.action + ' pull request #' + activity.payload.pull_request?.number;
-                                    break;
-                                case 'CreateEvent':
-                                    icon = '🆕';
-                                    content = 'created ' + activity.payload.ref_type + (activity.payload.ref ? ' ' + activity.payload.ref : '');
-                                    break;
-                                case 'WatchEvent':
-                                    icon = '⭐';
-                                    content = 'starred the repository';
-                                    break;
-                                default:
-                                    content = activity.eventType.replace('Event', '');
-                            }
+                        const byRepo = {};
+                        items.forEach(item => {
+                            const name = item.repository.owner + '/' + item.repository.repo;
+                            (byRepo[name] = byRepo[name] || []).push(item);
+                        });
+                        Object.keys(byRepo).sort().forEach(name => {
+                            const id = 'mywork-group-' + groups.length;
+                            groups.push({ id, items: byRepo[name], type: section.type });
+                            html += '<div class="mywork-repo">' + escapeHtml(name) + '</div><div id="' + id + '" class="grid"></div>';
+                        });
+                    });
 
-                            return '<div class="activity-item">' +
-                                '<div class="activity-header">' +
-                                    '<span class="activity-icon">' + icon + '</span>' +
-                                    '<span class="activity-actor">' + actor + '</span>' +
-                                    '<span class="activity-time">' + time + '</span>' +
-                                '</div>' +
-                                '<div class="activity-content">' + content + '</div>' +
-                            '</div>';
+                    document.getElementById('mywork-list').innerHTML = html;
+                    groups.forEach(group => renderItems(group.items, group.id, group.type, { crossRepo: true }));
+                }
+
+                const NOTIFICATION_GROUPS = [
+                    { title: 'Review Requests', reasons: ['review_requested'] },
+                    { title: 'Mentions', reasons: ['mention', 'team_mention'] },
+                    { title: 'Assigned', reasons: ['assign'] },
+                    { title: 'CI Activity', reasons: ['ci_activity'] }
+                ];
+                let notifications = [];
+                let notificationsLoaded = false;
+
+                function loadNotifications() {
+                    notificationsLoaded = true;
+                    document.getElementById('notifications-list').innerHTML = '<div class="loading">Loading notifications...</div>';
+                    vscode.postMessage({
+                        type: 'loadNotifications',
+                        allRepositories: document.getElementById('notifications-scope-filter').value === 'all',
+                        includeRead: document.getElementById('notifications-read-filter').value === 'all'
+                    });
+                }
+
+                function renderNotifications() {
+                    const container = document.getElementById('notifications-list');
+                    if (notifications.length === 0) {
+                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); text-align: center; padding: 20px;">No notifications</div>';
+                        return;
+                    }
+
+                    const grouped = NOTIFICATION_GROUPS.flatMap(group => group.reasons);
+                    const groups = NOTIFICATION_GROUPS.concat([{ title: 'Other', reasons: null }]);
+                    container.innerHTML = groups.map(group => {
+                        const items = notifications.filter(notification => group.reasons
+                            ? group.reasons.includes(notification.reason)
+                            : !grouped.includes(notification.reason));
+                        if (items.length === 0) {
+                            return '';
                         }
+                        return '<h3 class="mywork-section">' + group.title + ' (' + items.length + ')</h3>' + items.map(renderNotification).join('');
                     }).join('');
                 }
 
-                function filterItems(items, searchTerm, statusFilter, type) {
-                    return items.filter(item => {
-                        const matchesSearch = !searchTerm || 
-                            item.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                            item.user.login.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                            (item.labels && item.labels.some(label => label.name.toLowerCase().includes(searchTerm.toLowerCase())));
-                        
-                        const matchesStatus = !statusFilter || item.state === statusFilter;
-                        
-                        return matchesSearch && matchesStatus;
-                    });
+                function renderNotification(notification) {
+                    const time = new Date(notification.updated_at).toLocaleDateString() + ' ' + new Date(notification.updated_at).toLocaleTimeString();
+                    let buttons = '';
+                    if (notification.unread) {
+                        buttons += '<button class="action-btn" data-action="updateNotification" data-args="' + escapeHtml(JSON.stringify([notification.id, 'markNotificationRead'])) + '">Mark read</button>';
+                    }
+                    buttons += '<button class="action-btn" data-action="updateNotification" data-args="' + escapeHtml(JSON.stringify([notification.id, 'markNotificationDone'])) + '">Done</button>';
+                    buttons += '<button class="action-btn" data-action="updateNotification" data-args="' + escapeHtml(JSON.stringify([notification.id, 'unsubscribeNotification'])) + '">Unsubscribe</button>';
+
+                    return '<div class="activity-item notification-item' + (notification.unread ? '' : ' read') + '">' +
+                        '<div class="activity-header">' +
+                            '<span class="activity-actor">' + escapeHtml(notification.repository.full_name) + '</span>' +
+                            '<span>' + escapeHtml(notification.subject.type) + ' • ' + notification.reason.replace('_', ' ') + '</span>' +
+                            '<span class="activity-time">' + time + '</span>' +
+                        '</div>' +
+                        '<div class="activity-content notification-title" data-action="openNotification" data-args="' + escapeHtml(JSON.stringify([notification.id])) + '">' + escapeHtml(notification.subject.title) + '</div>' +
+                        '<div class="checkout-buttons">' + buttons + '</div>' +
+                    '</div>';
                 }
 
-                function applyIssuesFilter() {
-                    const searchTerm = document.getElementById('issues-search').value;
-                    const statusFilter = document.getElementById('issues-status-filter').value;
-                    const filteredIssues = filterItems(currentData.issues || [], searchTerm, statusFilter, 'issues');
-                    renderItems(filteredIssues, 'issues-grid', 'issues');
+                function openNotification(threadId) {
+                    const notification = notifications.find(candidate => candidate.id === threadId);
+                    if (notification) {
+                        vscode.postMessage({ type: 'openNotification', notification });
+                    }
+                }
+
+                function updateNotification(threadId, type) {
+                    vscode.postMessage({ type, threadId });
                 }
 
                 function applyPRsFilter() {
-                    const searchTerm = document.getElementById('prs-search').value;
+                    renderSavedViews();
+                    const searchTerm = withSort(document.getElementById('prs-search').value, document.getElementById('prs-sort').value);
                     const statusFilter = document.getElementById('prs-status-filter').value;
-                    const filteredPRs = filterItems(currentData.prs || [], searchTerm, statusFilter, 'pull requests');
-                    renderItems(filteredPRs, 'prs-grid', 'pull requests');
+                    const ciFilter = document.getElementById('prs-ci-filter').value;
+                    delete pendingSearches.prs;
+                    if (!canEvaluateLocally(parseQuery(searchTerm), 'pull requests', statusFilter)) {
+                        searchRemotely('prs', searchTerm, statusFilter);
+                        return;
+                    }
+                    const filteredPRs = filterItems(currentData.prs || [], searchTerm, statusFilter, 'pull requests')
+                        .filter(pr => !ciFilter || (ciStatuses[pr.number] ? ciStatuses[pr.number].state : 'none') === ciFilter);
+                    renderGroupedItems(filteredPRs, 'prs-grid', 'pull requests', document.getElementById('prs-group').value);
                 }
 
+                // Inline handlers are blocked by the CSP, so elements name their functions in data-action and data-change.
+                // Only the innermost action runs, so buttons on a card do not also open the card.
+                document.addEventListener('click', event => {
+                    const target = event.target.closest('[data-action]');
+                    if (!target) return;
+                    const args = target.dataset.args ? JSON.parse(target.dataset.args) : [];
+                    for (const name of target.dataset.action.split(' ')) {
+                        window[name](...args);
+                    }
+                });
+
+                document.addEventListener('change', event => {
+                    const name = event.target.dataset && event.target.dataset.change;
+                    if (name) {
+                        window[name](event.target.value);
+                    }
+                });
+
+                // Error events do not bubble, so broken avatars are caught on the way down
+                document.addEventListener('error', event => {
+                    if (event.target.classList && event.target.classList.contains('author-avatar')) {
+                        event.target.style.display = 'none';
+                    }
+                }, true);
+
                 window.addEventListener('message', event => {
                     const message = event.data;
                     if (message.type === 'dataLoaded') {
+                        if (!message.fromCache) {
+                            vscode.postMessage({ type: 'loadMilestones' });
+                            vscode.postMessage({ type: 'loadSavedViews' });
+                        }
                         currentData = message;
-                        renderItems(message.issues, 'issues-grid', 'issues');
-                        renderItems(message.prs, 'prs-grid', 'pull requests');
+                        applyIssuesFilter();
+                        applyPRsFilter();
+                        requestBranchStates();
                         if (message.user) {
                             updateUserInfo(message.user);
                         }
@@ -1658,10 +5087,32 @@ export class devDashProvider {
                         hideAccessDenied();
                     } else if (message.type === 'issuesRefreshed') {
                         currentData.issues = message.issues;
-                        renderItems(message.issues, 'issues-grid', 'issues');
+                        currentData.issuesPage = message.page;
+                        currentData.issuesHasMore = message.hasMore;
+                        applyIssuesFilter();
                     } else if (message.type === 'prsRefreshed') {
                         currentData.prs = message.prs;
-                        renderItems(message.prs, 'prs-grid', 'pull requests');
+                        currentData.prsPage = message.page;
+                        currentData.prsHasMore = message.hasMore;
+                        applyPRsFilter();
+                        requestBranchStates();
+                    } else if (message.type === 'issuesPageLoaded') {
+                        currentData.issues = currentData.issues.concat(message.issues);
+                        currentData.issuesPage = message.page;
+                        currentData.issuesHasMore = message.hasMore;
+                        applyIssuesFilter();
+                    } else if (message.type === 'prsPageLoaded') {
+                        currentData.prs = currentData.prs.concat(message.prs);
+                        currentData.prsPage = message.page;
+                        currentData.prsHasMore = message.hasMore;
+                        applyPRsFilter();
+                        requestBranchStates();
+                    } else if (message.type === 'loadMoreFailed') {
+                        // Give the button back so the page can be retried
+                        document.querySelectorAll('#' + message.kind + '-grid .load-more button').forEach(button => {
+                            button.disabled = false;
+                            button.textContent = message.kind === 'issues' ? 'Load more issues' : 'Load more pull requests';
+                        });
                     } else if (message.type === 'localDataLoaded') {
                         renderLocalData(message.stashes, message.changes);
                     } else if (message.type === 'activityLoaded') {
@@ -1680,21 +5131,110 @@ export class devDashProvider {
                             updateUserInfo(message.user);
                         }
                         showAccessDenied(message.repository, message.user?.login || 'Unknown');
+                    } else if (message.type === 'rateLimitUpdated') {
+                        rateLimits[message.state.resource] = message.state;
+                        cacheStats = message.cache;
+                        renderRateLimit();
+                    } else if (message.type === 'rateLimited') {
+                        document.getElementById('user-info').style.display = 'flex';
+                        rateLimits.limited = { resource: 'API', limitedUntil: message.until };
+                        renderRateLimit();
+                        if (!currentData.repository) {
+                            document.getElementById('issues-grid').innerHTML = '<div class="access-denied"><h3>⏳ Rate Limited</h3><p>' + escapeHtml(message.message) + '</p><button class="refresh-btn" data-action="loadData">Retry</button></div>';
+                            document.getElementById('prs-grid').innerHTML = '<div class="loading">Rate limited until ' + formatTime(message.until) + '</div>';
+                        }
                     } else if (message.type === 'authenticationError') {
-                        document.getElementById('issues-grid').innerHTML = '<div class="access-denied"><h3>🔐 Authentication Error</h3><p>' + message.message + '</p><button class="refresh-btn" onclick="switchAccount()">Switch Account</button></div>';
+                        document.getElementById('issues-grid').innerHTML = '<div class="access-denied"><h3>🔐 Authentication Error</h3><p>' + escapeHtml(message.message) + '</p><button class="refresh-btn" data-action="switchAccount">Switch Account</button></div>';
                         document.getElementById('prs-grid').innerHTML = '<div class="loading">Authentication required</div>';
                     } else if (message.type === 'collaboratorsLoaded') {
+                        collaborators = message.collaborators;
                         populateCollaborators(message.collaborators);
+                    } else if (message.type === 'searchResults' || message.type === 'searchFailed') {
+                        showSearchResults(message);
+                    } else if (message.type === 'createPRPrepared') {
+                        populateCreatePR(message);
+                    } else if (message.type === 'mergeabilityChecked') {
+                        showMergeability(message.prNumber, message.result);
+                    } else if (message.type === 'remotesLoaded') {
+                        renderRemotes(message.remotes, message.selected);
+                    } else if (message.type === 'myWorkLoaded') {
+                        myWork = message.work;
+                        applyMyWorkFilter();
+                    } else if (message.type === 'myWorkError') {
+                        myWorkLoaded = false;
+                        document.getElementById('mywork-list').innerHTML = '<div class="loading">' + escapeHtml(message.message) + '</div>';
+                    } else if (message.type === 'labelsLoaded') {
+                        repoLabels = message.labels;
+                        renderLabelPicker();
+                        renderLabelManager();
+                    } else if (message.type === 'savedViewsLoaded') {
+                        savedViews = message.views;
+                        renderSavedViews();
+                    } else if (message.type === 'milestonesLoaded') {
+                        milestones = message.milestones;
+                        renderMilestones();
+                    } else if (message.type === 'itemLabelsUpdated') {
+                        if (message.repository === currentData.repository) {
+                            (currentData.issues || []).concat(currentData.prs || [])
+                                .filter(item => item.number === message.number)
+                                .forEach(item => item.labels = message.labels);
+                            applyIssuesFilter();
+                            applyPRsFilter();
+                        }
+                    } else if (message.type === 'priorityLabelsChanged') {
+                        priorityLabels = message.priorityLabels;
+                        applyIssuesFilter();
+                        applyPRsFilter();
+                    } else if (message.type === 'notificationsLoaded') {
+                        notifications = message.notifications;
+                        renderNotifications();
+                    } else if (message.type === 'notificationsError') {
+                        notificationsLoaded = false;
+                        document.getElementById('notifications-list').innerHTML = '<div class="loading">' + escapeHtml(message.message) + '</div>';
+                    } else if (message.type === 'notificationUpdated') {
+                        const showRead = document.getElementById('notifications-read-filter').value === 'all';
+                        if (message.change === 'read' && showRead) {
+                            notifications.forEach(notification => {
+                                if (notification.id === message.threadId) {
+                                    notification.unread = false;
+                                }
+                            });
+                        } else if (message.change !== 'unsubscribed') {
+                            notifications = notifications.filter(notification => notification.id !== message.threadId);
+                        }
+                        renderNotifications();
+                    } else if (message.type === 'repositoriesLoaded') {
+                        renderRepositories(message.repositories, message.selected);
+                    } else if (message.type === 'remoteChanged' || message.type === 'repositoryChanged') {
+                        resetRepositoryState();
+                    } else if (message.type === 'prBranchStatesLoaded') {
+                        branchStates = message.states;
+                        applyPRsFilter();
+                    } else if (message.type === 'prBranchesChanged') {
+                        requestBranchStates();
+                    } else if (message.type === 'prCIStatusLoaded') {
+                        Object.assign(ciStatuses, message.statuses);
+                        applyPRsFilter();
+                    } else if (message.type === 'actionsLoaded') {
+                        actionsData = message;
+                        renderWorkflowFilter(message.workflows, message.workflowId);
+                        renderRuns(message.runs);
+                    } else if (message.type === 'runJobsLoaded') {
+                        renderRunJobs(message.runId, message.jobs);
+                    } else if (message.type === 'dispatchInputsLoaded') {
+                        renderDispatchInputs(message.workflowId, message.info);
                     }
                 });
 
                 // Set up form submission
                 document.getElementById('create-issue-form').addEventListener('submit', createIssue);
+                document.getElementById('create-pr-form').addEventListener('submit', createPR);
                 
                 // Close modals when clicking outside of them
                 window.addEventListener('click', function(event) {
                     const issueModal = document.getElementById('create-issue-modal');
                     const checkoutModal = document.getElementById('checkout-dialog');
+                    const mergeModal = document.getElementById('merge-dialog');
                     
                     if (event.target === issueModal) {
                         closeCreateIssueModal();
@@ -1702,13 +5242,39 @@ export class devDashProvider {
                     if (event.target === checkoutModal) {
                         closeCheckoutDialog();
                     }
+                    if (event.target === mergeModal) {
+                        closeMergeDialog();
+                    }
+                    if (event.target === document.getElementById('dispatch-dialog')) {
+                        closeDispatchDialog();
+                    }
+                    if (event.target === document.getElementById('create-pr-modal')) {
+                        closeCreatePRModal();
+                    }
                 });
 
                 // Set up search and filter event listeners
                 document.getElementById('issues-search').addEventListener('input', applyIssuesFilter);
-                document.getElementById('issues-status-filter').addEventListener('change', applyIssuesFilter);
+                // Status changes refetch from GitHub since only the selected state is loaded
+                document.getElementById('issues-status-filter').addEventListener('change', refreshIssues);
                 document.getElementById('prs-search').addEventListener('input', applyPRsFilter);
-                document.getElementById('prs-status-filter').addEventListener('change', applyPRsFilter);
+                attachSearchAutocomplete('issues-search');
+                attachSearchAutocomplete('prs-search');
+                document.getElementById('prs-status-filter').addEventListener('change', refreshPRs);
+                document.getElementById('prs-ci-filter').addEventListener('change', applyPRsFilter);
+                ['issues-sort', 'issues-group'].forEach(id => document.getElementById(id).addEventListener('change', applyIssuesFilter));
+                ['prs-sort', 'prs-group'].forEach(id => document.getElementById(id).addEventListener('change', applyPRsFilter));
+                document.getElementById('actions-workflow-filter').addEventListener('change', loadActions);
+                document.getElementById('mywork-search').addEventListener('input', applyMyWorkFilter);
+                document.getElementById('mywork-category-filter').addEventListener('change', applyMyWorkFilter);
+                document.getElementById('notifications-scope-filter').addEventListener('change', loadNotifications);
+                document.getElementById('issues-milestone-filter').addEventListener('change', () => {
+                    renderMilestones();
+                    applyIssuesFilter();
+                });
+                document.getElementById('label-picker-search').addEventListener('input', renderLabelPicker);
+                document.getElementById('notifications-read-filter').addEventListener('change', loadNotifications);
+                document.getElementById('dispatch-form').addEventListener('submit', confirmDispatch);
 
                 loadData();
             </script>
@@ -1718,11 +5284,14 @@ export class devDashProvider {
 
     private _getDetailsHtml(item: any) {
         const isPR = item.type === 'pr';
+        // Issue and comment bodies are third-party HTML, so only the script carrying this nonce may run
+        const nonce = crypto.randomBytes(16).toString('base64');
         
         return `<!DOCTYPE html>
         <html lang="en">
         <head>
             <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
             <title>${item.type === 'issue' ? 'Issue' : 'PR'} #${item.number}</title>
             <style>
@@ -1805,118 +5374,606 @@ export class devDashProvider {
                     color: var(--vscode-button-secondaryForeground);
                     border: 1px solid var(--vscode-button-border);
                 }
-                .comments-section {
-                    margin-top: 30px;
+                .comments-section {
+                    margin-top: 30px;
+                }
+                .comment {
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 4px;
+                    margin-bottom: 12px;
+                    background-color: var(--vscode-editor-background);
+                }
+                .comment-header {
+                    background-color: var(--vscode-panel-background);
+                    padding: 8px 12px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                    font-size: 0.9em;
+                    color: var(--vscode-descriptionForeground);
+                }
+                .comment-body {
+                    padding: 12px;
+                }
+                .comment-type {
+                    background-color: var(--vscode-badge-background);
+                    color: var(--vscode-badge-foreground);
+                    padding: 2px 6px;
+                    border-radius: 3px;
+                    font-size: 0.8em;
+                    margin-left: 8px;
+                }
+                .add-comment {
+                    margin-top: 20px;
+                    padding: 16px;
+                    background-color: var(--vscode-panel-background);
+                    border-radius: 4px;
+                    border: 1px solid var(--vscode-panel-border);
+                }
+                .comment-textarea {
+                    width: 100%;
+                    min-height: 100px;
+                    padding: 8px;
+                    border: 1px solid var(--vscode-input-border);
+                    border-radius: 4px;
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    font-family: var(--vscode-font-family);
+                    resize: vertical;
+                    box-sizing: border-box;
+                }
+                .comment-textarea:focus {
+                    outline: none;
+                    border-color: var(--vscode-focusBorder);
+                }
+                .loading {
+                    text-align: center;
+                    color: var(--vscode-descriptionForeground);
+                    padding: 20px;
+                }
+                .checks-list {
+                    margin-bottom: 20px;
+                }
+                .check-item {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    padding: 4px 0;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                .check-state {
+                    width: 16px;
+                    font-weight: bold;
+                }
+                .check-state.success { color: #3fb950; }
+                .check-state.failure { color: #f85149; }
+                .check-state.pending { color: #d29922; }
+                .check-state.neutral { color: var(--vscode-descriptionForeground); }
+                .check-description {
+                    color: var(--vscode-descriptionForeground);
+                    font-size: 0.9em;
+                }
+                .check-link {
+                    margin-left: auto;
+                    color: var(--vscode-textLink-foreground);
+                }
+                .file-row {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    padding: 4px 6px;
+                    cursor: pointer;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: 0.9em;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                .file-row:hover {
+                    background-color: var(--vscode-list-hoverBackground);
+                }
+                .file-marker {
+                    width: 16px;
+                    font-weight: bold;
+                }
+                .file-marker.added { color: #3fb950; }
+                .file-marker.removed { color: #f85149; }
+                .file-marker.modified, .file-marker.changed { color: #d29922; }
+                .file-marker.renamed, .file-marker.copied { color: #a371f7; }
+                .file-stats {
+                    margin-left: auto;
+                    white-space: nowrap;
+                }
+                .additions { color: #3fb950; }
+                .deletions { color: #f85149; }
+                .thread {
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 4px;
+                    margin-bottom: 16px;
+                }
+                .thread.resolved {
+                    opacity: 0.7;
+                }
+                .thread-header {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    padding: 8px 12px;
+                    background-color: var(--vscode-panel-background);
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: 0.9em;
+                }
+                .thread-header .btn {
+                    margin-left: auto;
+                    padding: 4px 8px;
+                }
+                .diff-hunk {
+                    margin: 0;
+                    padding: 8px 12px;
+                    overflow-x: auto;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: 0.85em;
+                    background-color: var(--vscode-textCodeBlock-background);
+                }
+                .diff-hunk .hunk-add { color: #3fb950; }
+                .diff-hunk .hunk-del { color: #f85149; }
+                .diff-hunk .hunk-meta { color: var(--vscode-descriptionForeground); }
+                .thread .comment {
+                    border: none;
+                    border-top: 1px solid var(--vscode-panel-border);
+                    border-radius: 0;
+                    margin-bottom: 0;
+                }
+                .thread-reply {
+                    padding: 8px 12px;
+                    border-top: 1px solid var(--vscode-panel-border);
+                }
+                .thread-reply .comment-textarea {
+                    min-height: 60px;
+                }
+                .line-comment-fields {
+                    display: flex;
+                    gap: 8px;
+                    margin-bottom: 8px;
+                }
+                .line-comment-fields input, .line-comment-fields select {
+                    padding: 6px 8px;
+                    border: 1px solid var(--vscode-input-border);
+                    border-radius: 4px;
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                }
+                .review-state {
+                    padding: 2px 6px;
+                    border-radius: 3px;
+                    font-size: 0.8em;
+                    margin-left: 8px;
+                    color: #ffffff;
+                    background-color: var(--vscode-badge-background);
+                }
+                .review-state.approved { background-color: #238636; }
+                .review-state.changes_requested { background-color: #da3633; }
+                .review-state.dismissed { background-color: #6e7681; }
+                .review-form-actions {
+                    display: flex;
+                    gap: 8px;
+                    align-items: center;
+                    margin-top: 10px;
                 }
-                .comment {
-                    border: 1px solid var(--vscode-panel-border);
+                .review-select {
+                    padding: 6px 8px;
+                    border: 1px solid var(--vscode-input-border);
                     border-radius: 4px;
-                    margin-bottom: 12px;
-                    background-color: var(--vscode-editor-background);
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
                 }
-                .comment-header {
-                    background-color: var(--vscode-panel-background);
-                    padding: 8px 12px;
-                    border-bottom: 1px solid var(--vscode-panel-border);
+                .timeline-event {
+                    padding: 6px 12px;
+                    margin: 0 0 12px 16px;
+                    border-left: 2px solid var(--vscode-panel-border);
                     font-size: 0.9em;
                     color: var(--vscode-descriptionForeground);
                 }
-                .comment-body {
-                    padding: 12px;
+                .label-list {
+                    max-height: 240px;
+                    overflow-y: auto;
+                    margin-bottom: 12px;
                 }
-                .comment-type {
-                    background-color: var(--vscode-badge-background);
-                    color: var(--vscode-badge-foreground);
-                    padding: 2px 6px;
-                    border-radius: 3px;
-                    font-size: 0.8em;
-                    margin-left: 8px;
+                .label-option {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    padding: 4px 0;
                 }
-                .add-comment {
-                    margin-top: 20px;
-                    padding: 16px;
-                    background-color: var(--vscode-panel-background);
+                .timeline-event .label {
+                    font-size: 0.85em;
+                }
+                .comment-tabs {
+                    display: flex;
+                    gap: 4px;
+                    margin-bottom: 8px;
+                }
+                .comment-tab {
+                    padding: 4px 10px;
+                    border: 1px solid var(--vscode-panel-border);
                     border-radius: 4px;
+                    background: none;
+                    color: var(--vscode-foreground);
+                    cursor: pointer;
+                }
+                .comment-tab.active {
+                    background-color: var(--vscode-button-secondaryBackground);
+                }
+                .comment-preview {
+                    min-height: 100px;
                     border: 1px solid var(--vscode-panel-border);
+                    border-radius: 4px;
                 }
-                .comment-textarea {
+                .edit-input {
                     width: 100%;
-                    min-height: 100px;
-                    padding: 8px;
+                    padding: 6px 8px;
+                    margin-bottom: 8px;
                     border: 1px solid var(--vscode-input-border);
                     border-radius: 4px;
                     background-color: var(--vscode-input-background);
                     color: var(--vscode-input-foreground);
-                    font-family: var(--vscode-font-family);
-                    resize: vertical;
                     box-sizing: border-box;
                 }
-                .comment-textarea:focus {
-                    outline: none;
-                    border-color: var(--vscode-focusBorder);
+                .edit-fields {
+                    display: flex;
+                    gap: 12px;
+                    margin: 8px 0 12px 0;
                 }
-                .loading {
-                    text-align: center;
-                    color: var(--vscode-descriptionForeground);
-                    padding: 20px;
+                .edit-fields label {
+                    display: block;
+                    font-size: 0.85em;
+                    margin-bottom: 4px;
+                }
+                .edit-fields > div {
+                    flex: 1;
+                }
+                .edit-fields select {
+                    width: 100%;
                 }
             </style>
         </head>
         <body>
             <div class="header">
-                <div class="title">#${item.number} ${item.title}</div>
-                <div class="meta">
-                    ${item.type === 'issue' ? 'Issue' : 'Pull Request'} by ${item.user.login} • 
+                <div class="title" id="item-title">#${item.number} ${this._escapeHtml(item.title)}</div>
+                <div class="meta" id="item-meta">
+                    ${item.type === 'issue' ? 'Issue' : 'Pull Request'} by ${this._escapeHtml(item.user.login)} • 
                     Created ${new Date(item.created_at).toLocaleDateString()} • 
-                    ${item.state}
+                    ${this._escapeHtml(item.state)}
                 </div>
-                <div class="labels">
-                    ${item.labels ? item.labels.map((label: any) => `<span class="label">${label.name}</span>`).join('') : ''}
+                <div class="labels" id="item-labels"></div>
+            </div>
+
+            <div id="details-label-picker" class="add-comment" style="display: none; margin: 0 0 20px 0;">
+                <h4>Labels</h4>
+                <div id="details-label-list" class="label-list">
+                    <div class="loading">Loading labels...</div>
                 </div>
+                <button class="btn btn-primary" data-action="applyDetailsLabels">Apply</button>
+                <button class="btn btn-secondary" data-action="toggleLabelPicker">Cancel</button>
             </div>
 
             ${isPR ? `
             <div class="actions">
-                <button class="btn btn-primary" onclick="loadPRDetails()">Load Full Details</button>
-                <button class="btn btn-secondary" onclick="copyPRContent()">📋 Copy PR + Comments</button>
-                <button class="btn btn-secondary" onclick="loadComments()">💬 Load Comments</button>
+                <button class="btn btn-primary" data-action="loadPRDetails loadComments">↻ Reload</button>
+                <button class="btn btn-secondary" data-action="copyPRContent">📋 Copy PR + Comments</button>
+                <button class="btn btn-secondary" data-action="toggleLabelPicker">🏷 Labels</button>
+            </div>` : ''}
+
+            ${!isPR ? `
+            <div class="actions">
+                <button class="btn btn-primary" data-action="loadIssueDetails">↻ Reload</button>
+                <button class="btn btn-secondary" data-action="startEditing">✏️ Edit</button>
+                <button class="btn btn-secondary" data-action="toggleLabelPicker">🏷 Labels</button>
+                <span id="issue-state-actions" class="actions" style="margin: 0;"></span>
+            </div>
+
+            <div id="issue-edit-form" class="add-comment" style="display: none; margin-bottom: 20px;">
+                <h4>Edit Issue</h4>
+                <input type="text" id="edit-title" class="edit-input" placeholder="Title">
+                <textarea id="edit-body" class="comment-textarea" placeholder="Description (Markdown supported)"></textarea>
+                <div class="edit-fields">
+                    <div>
+                        <label for="edit-labels">Labels</label>
+                        <select id="edit-labels" class="review-select" multiple size="5"></select>
+                    </div>
+                    <div>
+                        <label for="edit-assignees">Assignees</label>
+                        <select id="edit-assignees" class="review-select" multiple size="5"></select>
+                    </div>
+                    <div>
+                        <label for="edit-milestone">Milestone</label>
+                        <select id="edit-milestone" class="review-select">
+                            <option value="">No milestone</option>
+                        </select>
+                    </div>
+                </div>
+                <button class="btn btn-primary" id="save-issue-btn" data-action="saveIssue">Save</button>
+                <button class="btn btn-secondary" data-action="cancelEditing">Cancel</button>
             </div>` : ''}
 
             <div class="body" id="description-content">
-                ${item.body || 'No description provided.'}
+                ${item.body_html || this.githubService.renderMarkdown(item.body || '') || 'No description provided.'}
+            </div>
+
+            ${isPR ? `
+            <h3>Checks <span id="checks-summary" class="check-description"></span></h3>
+            <div id="checks-container" class="checks-list">
+                <div class="loading">Loading CI checks</div>
             </div>
 
+            <h3>Files changed <span id="files-summary" class="check-description"></span></h3>
+            <div id="files-container" class="checks-list">
+                <div class="loading">Loading changed files</div>
+            </div>` : ''}
+
             ${isPR ? `
+            <div class="comments-section">
+                <h3>Reviews</h3>
+                <div id="reviews-container">
+                    <div class="loading">Loading...</div>
+                </div>
+
+                <div class="add-comment">
+                    <h4>Submit Review</h4>
+                    <textarea id="review-body" class="comment-textarea" placeholder="Leave a review summary... (Markdown supported)"></textarea>
+                    <div class="review-form-actions">
+                        <select id="review-event" class="review-select">
+                            <option value="COMMENT">Comment</option>
+                            <option value="APPROVE">Approve</option>
+                            <option value="REQUEST_CHANGES">Request changes</option>
+                        </select>
+                        <button class="btn btn-primary" data-action="submitReview">Submit Review</button>
+                    </div>
+                </div>
+            </div>
+
+            <div class="comments-section">
+                <h3>Review Threads</h3>
+                <div id="threads-container">
+                    <div class="loading">Loading...</div>
+                </div>
+
+                <div class="add-comment">
+                    <h4>Comment on a Line</h4>
+                    <div class="line-comment-fields">
+                        <input type="text" id="line-comment-path" list="line-comment-files" placeholder="path/to/file" style="flex: 1;">
+                        <datalist id="line-comment-files"></datalist>
+                        <input type="number" id="line-comment-line" min="1" placeholder="Line" style="width: 80px;">
+                        <select id="line-comment-side">
+                            <option value="RIGHT">New (head)</option>
+                            <option value="LEFT">Old (base)</option>
+                        </select>
+                    </div>
+                    <textarea id="line-comment-body" class="comment-textarea" placeholder="Write a review comment... (Markdown supported)"></textarea>
+                    <br><br>
+                    <button class="btn btn-primary" data-action="createLineComment">Add Line Comment</button>
+                </div>
+            </div>
+
             <div class="comments-section">
                 <h3>Comments</h3>
                 <div id="comments-container">
-                    <div class="loading">Click "Load Comments" to view discussions</div>
+                    <div class="loading">Loading...</div>
                 </div>
                 
                 <div class="add-comment">
                     <h4>Add Comment</h4>
                     <textarea id="new-comment" class="comment-textarea" placeholder="Write a comment... (Markdown supported)"></textarea>
                     <br><br>
-                    <button class="btn btn-primary" onclick="addComment()">Add Comment</button>
+                    <button class="btn btn-primary" data-action="addComment">Add Comment</button>
                     <small style="color: var(--vscode-descriptionForeground); margin-left: 10px;">Supports Markdown formatting</small>
                 </div>
-            </div>` : ''}
+            </div>` : `
+            <div class="comments-section">
+                <h3>Discussion</h3>
+                <div id="discussion-container">
+                    <div class="loading">Loading...</div>
+                </div>
+
+                <div class="add-comment">
+                    <h4>Add Comment</h4>
+                    <div class="comment-tabs">
+                        <button class="comment-tab active" id="comment-write-tab" data-action="showCommentTab" data-args='["write"]'>Write</button>
+                        <button class="comment-tab" id="comment-preview-tab" data-action="showCommentTab" data-args='["preview"]'>Preview</button>
+                    </div>
+                    <textarea id="new-issue-comment" class="comment-textarea" placeholder="Write a comment... (Markdown supported)"></textarea>
+                    <div id="comment-preview" class="comment-body comment-preview" style="display: none;"></div>
+                    <br><br>
+                    <button class="btn btn-primary" data-action="addIssueComment">Comment</button>
+                </div>
+            </div>`}
 
-            <script>
+            <script nonce="${nonce}">
                 const vscode = acquireVsCodeApi();
                 let currentPR = ${isPR ? item.number : 'null'};
+                const currentIssue = ${!isPR ? item.number : 'null'};
+                let currentLabels = ${JSON.stringify(item.labels || []).replace(/</g, '\\u003c')};
+                let repoLabels = null;
+                let issue = null;
+                let issueComments = [];
+                let issueTimeline = [];
+                let editOptions = null;
                 let prDetails = null;
                 let prComments = [];
+                let prReviews = [];
 
                 function loadPRDetails() {
                     if (!currentPR) return;
+                    document.getElementById('checks-container').innerHTML = '<div class="loading">Loading checks...</div>';
+                    document.getElementById('files-container').innerHTML = '<div class="loading">Loading files...</div>';
                     vscode.postMessage({ type: 'loadPRDetails', prNumber: currentPR });
+                    vscode.postMessage({ type: 'loadPRChecks', prNumber: currentPR });
+                    vscode.postMessage({ type: 'loadPRFiles', prNumber: currentPR });
+                }
+
+                let prFiles = [];
+
+                function renderFiles(files) {
+                    prFiles = files;
+                    const container = document.getElementById('files-container');
+                    const additions = files.reduce((sum, file) => sum + file.additions, 0);
+                    const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+                    document.getElementById('files-summary').textContent = '(' + files.length + ' files, +' + additions + ' −' + deletions + ')';
+                    if (files.length === 0) {
+                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); padding: 8px 0;">No files changed</div>';
+                        return;
+                    }
+
+                    const markers = { added: 'A', removed: 'D', modified: 'M', renamed: 'R', copied: 'C', changed: 'M', unchanged: ' ' };
+                    container.innerHTML = files.map((file, index) => {
+                        const name = file.previous_filename ? file.previous_filename + ' → ' + file.filename : file.filename;
+                        return '<div class="file-row" data-action="openFileDiff" data-args="[' + index + ']" title="Open diff">' +
+                            '<span class="file-marker ' + file.status + '">' + (markers[file.status] || '?') + '</span>' +
+                            '<span>' + name + '</span>' +
+                            '<span class="file-stats"><span class="additions">+' + file.additions + '</span> <span class="deletions">−' + file.deletions + '</span></span>' +
+                        '</div>';
+                    }).join('');
+                }
+
+                function openFileDiff(index) {
+                    const file = prFiles[index];
+                    if (!file || !currentPR) return;
+                    vscode.postMessage({
+                        type: 'openFileDiff',
+                        prNumber: currentPR,
+                        file: { filename: file.filename, previous_filename: file.previous_filename, status: file.status }
+                    });
+                }
+
+                function renderChecks(status) {
+                    const container = document.getElementById('checks-container');
+                    document.getElementById('checks-summary').textContent = status.total > 0
+                        ? '(' + status.passed + ' passed, ' + status.failed + ' failed, ' + status.pending + ' pending)'
+                        : '';
+                    if (status.checks.length === 0) {
+                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); padding: 8px 0;">No checks reported for this commit</div>';
+                        return;
+                    }
+
+                    const icons = { success: '✓', failure: '✗', pending: '●', neutral: '○' };
+                    const order = { failure: 0, pending: 1, neutral: 2, success: 3 };
+                    container.innerHTML = status.checks
+                        .slice()
+                        .sort((a, b) => order[a.state] - order[b.state])
+                        .map(check => '<div class="check-item">' +
+                            '<span class="check-state ' + check.state + '">' + icons[check.state] + '</span>' +
+                            '<strong>' + escapeHtml(check.name) + '</strong>' +
+                            (check.description ? '<span class="check-description">' + escapeHtml(check.description) + '</span>' : '') +
+                            (/^https?:\\/\\//i.test(check.url || '') ? '<a class="check-link" href="' + escapeHtml(check.url) + '">Details</a>' : '') +
+                        '</div>')
+                        .join('');
                 }
 
                 function loadComments() {
                     if (!currentPR) return;
                     document.getElementById('comments-container').innerHTML = '<div class="loading">Loading comments...</div>';
+                    document.getElementById('reviews-container').innerHTML = '<div class="loading">Loading reviews...</div>';
+                    document.getElementById('threads-container').innerHTML = '<div class="loading">Loading review threads...</div>';
                     vscode.postMessage({ type: 'loadPRComments', prNumber: currentPR });
+                    vscode.postMessage({ type: 'loadPRReviews', prNumber: currentPR });
+                    vscode.postMessage({ type: 'loadReviewThreads', prNumber: currentPR });
+                }
+
+                function escapeHtml(text) {
+                    return String(text == null ? '' : text)
+                        .replace(/&/g, '&amp;')
+                        .replace(/</g, '&lt;')
+                        .replace(/>/g, '&gt;')
+                        .replace(/"/g, '&quot;');
+                }
+
+                function renderDiffHunk(hunk) {
+                    // Only the last few lines of the hunk lead up to the commented line
+                    const lines = (hunk || '').split('\\n').slice(-8);
+                    return '<pre class="diff-hunk">' + lines.map(line => {
+                        const cls = line.startsWith('@@') ? 'hunk-meta' : line.startsWith('+') ? 'hunk-add' : line.startsWith('-') ? 'hunk-del' : '';
+                        return '<span class="' + cls + '">' + escapeHtml(line) + '</span>';
+                    }).join('\\n') + '</pre>';
+                }
+
+                function renderThreads(threads) {
+                    const container = document.getElementById('threads-container');
+                    if (threads.length === 0) {
+                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); text-align: center; padding: 20px;">No review threads yet</div>';
+                        return;
+                    }
+
+                    container.innerHTML = threads.map(thread => {
+                        const location = escapeHtml(thread.path) + (thread.line ? ':' + thread.line : '');
+                        const badges = (thread.isResolved ? '<span class="comment-type">Resolved</span>' : '') +
+                            (thread.isOutdated ? '<span class="comment-type">Outdated</span>' : '');
+                        const resolveButton = thread.id
+                            ? '<button class="btn btn-secondary" data-action="setThreadResolved" data-args="' + escapeHtml(JSON.stringify([thread.id, !thread.isResolved])) + '">' + (thread.isResolved ? 'Unresolve' : 'Resolve') + '</button>'
+                            : '';
+                        const comments = thread.comments.map(comment =>
+                            '<div class="comment">' +
+                                '<div class="comment-header"><strong>' + comment.user.login + '</strong> commented ' + new Date(comment.created_at).toLocaleString() + '</div>' +
+                                '<div class="comment-body">' + comment.body_html + '</div>' +
+                            '</div>'
+                        ).join('');
+                        return '<div class="thread' + (thread.isResolved ? ' resolved' : '') + '">' +
+                            '<div class="thread-header"><span>' + location + '</span>' + badges + resolveButton + '</div>' +
+                            renderDiffHunk(thread.diffHunk) +
+                            comments +
+                            '<div class="thread-reply">' +
+                                '<textarea id="reply-' + thread.rootCommentId + '" class="comment-textarea" placeholder="Reply..."></textarea>' +
+                                '<button class="btn btn-secondary" data-action="replyToThread" data-args="[' + thread.rootCommentId + ']">Reply</button>' +
+                            '</div>' +
+                        '</div>';
+                    }).join('');
+                }
+
+                function replyToThread(commentId) {
+                    if (!currentPR) return;
+                    const textarea = document.getElementById('reply-' + commentId);
+                    const body = textarea.value.trim();
+                    if (!body) {
+                        alert('Please enter a reply');
+                        return;
+                    }
+                    textarea.disabled = true;
+                    vscode.postMessage({ type: 'replyToThread', prNumber: currentPR, commentId, body });
+                }
+
+                function setThreadResolved(threadId, resolved) {
+                    if (!currentPR) return;
+                    vscode.postMessage({ type: 'setThreadResolved', prNumber: currentPR, threadId, resolved });
+                }
+
+                function createLineComment() {
+                    if (!currentPR) return;
+                    const path = document.getElementById('line-comment-path').value.trim();
+                    const line = parseInt(document.getElementById('line-comment-line').value, 10);
+                    const side = document.getElementById('line-comment-side').value;
+                    const body = document.getElementById('line-comment-body').value.trim();
+                    if (!path || !line || !body) {
+                        alert('Please enter a file, line and comment');
+                        return;
+                    }
+                    document.getElementById('line-comment-body').disabled = true;
+                    vscode.postMessage({ type: 'createLineComment', prNumber: currentPR, comment: { path, line, side, body } });
+                }
+
+                function submitReview() {
+                    if (!currentPR) return;
+                    const textarea = document.getElementById('review-body');
+                    const event = document.getElementById('review-event').value;
+                    const body = textarea.value.trim();
+                    // GitHub only accepts an empty body for approvals
+                    if (!body && event !== 'APPROVE') {
+                        alert('Please enter a review summary');
+                        return;
+                    }
+
+                    textarea.disabled = true;
+                    vscode.postMessage({
+                        type: 'submitPRReview',
+                        prNumber: currentPR,
+                        event: event,
+                        body: body
+                    });
                 }
 
                 function addComment() {
@@ -1928,12 +5985,22 @@ export class devDashProvider {
                         return;
                     }
                     
+                    textarea.disabled = true;
                     vscode.postMessage({ 
                         type: 'addPRComment', 
                         prNumber: currentPR, 
                         body: body 
                     });
-                    textarea.value = '';
+                }
+
+                // Drafts stay in their box until GitHub has accepted them
+                function finishDraft(id, posted) {
+                    const textarea = document.getElementById(id);
+                    if (!textarea) return;
+                    textarea.disabled = false;
+                    if (posted) {
+                        textarea.value = '';
+                    }
                 }
 
                 function copyPRContent() {
@@ -1941,8 +6008,10 @@ export class devDashProvider {
                     vscode.postMessage({ type: 'copyPRContent', prNumber: currentPR });
                 }
 
-                function renderComments(comments) {
+                function renderComments(allComments) {
                     const container = document.getElementById('comments-container');
+                    // Code review comments are shown with their diff context in the review threads
+                    const comments = allComments.filter(comment => comment.comment_type !== 'review');
                     if (comments.length === 0) {
                         container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); text-align: center; padding: 20px;">No comments yet</div>';
                         return;
@@ -1960,6 +6029,36 @@ export class devDashProvider {
                     }).join('');
                 }
 
+                function renderReviews(reviews) {
+                    const container = document.getElementById('reviews-container');
+                    if (reviews.length === 0) {
+                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); text-align: center; padding: 20px;">No reviews yet</div>';
+                        return;
+                    }
+
+                    container.innerHTML = reviews.map(review => {
+                        const time = review.submitted_at ? new Date(review.submitted_at).toLocaleString() : 'pending';
+                        const state = (review.state || '').toLowerCase();
+                        const stateLabel = '<span class="review-state ' + state + '">' + state.replace('_', ' ') + '</span>';
+                        return \`<div class="comment">
+                            <div class="comment-header">
+                                <strong>\${review.user ? review.user.login : 'ghost'}</strong> reviewed \${time} \${stateLabel}
+                            </div>
+                            \${review.body_html ? '<div class="comment-body">' + review.body_html + '</div>' : ''}
+                        </div>\`;
+                    }).join('');
+                }
+
+                // Inline handlers are blocked by the CSP, so buttons name their functions in data-action
+                document.addEventListener('click', event => {
+                    const target = event.target.closest('[data-action]');
+                    if (!target) return;
+                    const args = target.dataset.args ? JSON.parse(target.dataset.args) : [];
+                    for (const name of target.dataset.action.split(' ')) {
+                        window[name](...args);
+                    }
+                });
+
                 window.addEventListener('message', event => {
                     const message = event.data;
                     if (message.type === 'prDetailsLoaded') {
@@ -1969,10 +6068,317 @@ export class devDashProvider {
                         prComments = message.comments;
                         renderComments(message.comments);
                     } else if (message.type === 'prCommentAdded') {
+                        finishDraft('new-comment', true);
                         prComments.push(message.comment);
                         renderComments(prComments);
+                    } else if (message.type === 'prCommentFailed') {
+                        finishDraft('new-comment', false);
+                    } else if (message.type === 'prFilesLoaded') {
+                        renderFiles(message.files);
+                        document.getElementById('line-comment-files').innerHTML = message.files
+                            .filter(file => file.status !== 'removed')
+                            .map(file => '<option value="' + escapeHtml(file.filename) + '">')
+                            .join('');
+                    } else if (message.type === 'threadReplyAdded' || message.type === 'threadReplyFailed') {
+                        finishDraft('reply-' + message.commentId, message.type === 'threadReplyAdded');
+                    } else if (message.type === 'lineCommentAdded' || message.type === 'lineCommentFailed') {
+                        finishDraft('line-comment-body', message.type === 'lineCommentAdded');
+                    } else if (message.type === 'reviewThreadsLoaded') {
+                        renderThreads(message.threads);
+                    } else if (message.type === 'prChecksLoaded') {
+                        renderChecks(message.status);
+                    } else if (message.type === 'prReviewsLoaded') {
+                        prReviews = message.reviews;
+                        renderReviews(prReviews);
+                    } else if (message.type === 'prReviewSubmitted') {
+                        finishDraft('review-body', true);
+                        prReviews.push(message.review);
+                        renderReviews(prReviews);
+                    } else if (message.type === 'prReviewFailed') {
+                        finishDraft('review-body', false);
+                    } else if (message.type === 'itemUpdated') {
+                        renderItemHeader(message.item);
+                        if (currentPR) {
+                            loadPRDetails();
+                            loadComments();
+                        } else if (!issue || issue.updated_at !== message.item.updated_at) {
+                            loadIssueDetails();
+                        }
+                    } else if (message.type === 'issueDetailsLoaded') {
+                        issueComments = message.comments;
+                        issueTimeline = message.timeline;
+                        showIssue(message.issue);
+                    } else if (message.type === 'issueCommentAdded') {
+                        finishDraft('new-issue-comment', true);
+                        showCommentTab('write');
+                        issueComments.push(message.comment);
+                        renderDiscussion();
+                    } else if (message.type === 'issueCommentFailed') {
+                        finishDraft('new-issue-comment', false);
+                    } else if (message.type === 'issueUpdated') {
+                        if (message.timeline) {
+                            issueTimeline = message.timeline;
+                        }
+                        document.getElementById('issue-edit-form').style.display = 'none';
+                        showIssue(message.issue);
+                    } else if (message.type === 'issueUpdateFailed') {
+                        renderIssueStateActions();
+                        document.getElementById('save-issue-btn').disabled = false;
+                    } else if (message.type === 'issueEditOptionsLoaded') {
+                        editOptions = message;
+                        populateEditOptions();
+                    } else if (message.type === 'labelsLoaded') {
+                        repoLabels = message.labels;
+                        renderDetailsLabelPicker();
+                    } else if (message.type === 'itemLabelsUpdated') {
+                        currentLabels = message.labels;
+                        if (issue) {
+                            issue.labels = message.labels;
+                        }
+                        renderHeaderLabels();
+                    } else if (message.type === 'markdownPreview' && message.target === 'comment') {
+                        document.getElementById('comment-preview').innerHTML = message.html || 'Nothing to preview';
                     }
                 });
+
+                function loadIssueDetails() {
+                    if (!currentIssue) return;
+                    vscode.postMessage({ type: 'loadIssueDetails', issueNumber: currentIssue });
+                }
+
+                function showIssue(updated) {
+                    issue = updated;
+                    renderItemHeader({ ...issue, type: 'issue' });
+                    document.getElementById('description-content').innerHTML = issue.body_html || 'No description provided.';
+                    renderIssueStateActions();
+                    renderDiscussion();
+                }
+
+                function renderIssueStateActions() {
+                    const container = document.getElementById('issue-state-actions');
+                    if (!issue) {
+                        container.innerHTML = '';
+                        return;
+                    }
+                    container.innerHTML = issue.state === 'open'
+                        ? '<button class="btn btn-secondary" data-action="setIssueState" data-args="' + escapeHtml(JSON.stringify(['closed', 'completed'])) + '">✔ Close as completed</button>' +
+                          '<button class="btn btn-secondary" data-action="setIssueState" data-args="' + escapeHtml(JSON.stringify(['closed', 'not_planned'])) + '">⊘ Close as not planned</button>'
+                        : '<button class="btn btn-secondary" data-action="setIssueState" data-args="' + escapeHtml(JSON.stringify(['open', 'reopened'])) + '">↺ Reopen</button>';
+                }
+
+                function setIssueState(state, reason) {
+                    document.querySelectorAll('#issue-state-actions button').forEach(button => button.disabled = true);
+                    vscode.postMessage({ type: 'updateIssue', issueNumber: currentIssue, changes: { state, state_reason: reason } });
+                }
+
+                function startEditing() {
+                    if (!issue) return;
+                    document.getElementById('edit-title').value = issue.title;
+                    document.getElementById('edit-body').value = issue.body || '';
+                    document.getElementById('save-issue-btn').disabled = false;
+                    document.getElementById('issue-edit-form').style.display = 'block';
+                    if (editOptions) {
+                        populateEditOptions();
+                    } else {
+                        vscode.postMessage({ type: 'loadIssueEditOptions' });
+                    }
+                }
+
+                function cancelEditing() {
+                    document.getElementById('issue-edit-form').style.display = 'none';
+                }
+
+                function populateEditOptions() {
+                    if (!issue || !editOptions) return;
+                    const selectedLabels = (issue.labels || []).map(label => label.name);
+                    const selectedAssignees = (issue.assignees || []).map(user => user.login);
+                    // Current values stay selectable even when the option lists do not include them
+                    const labelNames = Array.from(new Set(editOptions.labels.map(label => label.name).concat(selectedLabels)));
+                    const logins = Array.from(new Set(editOptions.collaborators.map(user => user.login).concat(selectedAssignees)));
+
+                    document.getElementById('edit-labels').innerHTML = labelNames.map(name =>
+                        '<option value="' + escapeHtml(name) + '"' + (selectedLabels.includes(name) ? ' selected' : '') + '>' + escapeHtml(name) + '</option>'
+                    ).join('');
+                    document.getElementById('edit-assignees').innerHTML = logins.map(login =>
+                        '<option value="' + escapeHtml(login) + '"' + (selectedAssignees.includes(login) ? ' selected' : '') + '>' + escapeHtml(login) + '</option>'
+                    ).join('');
+
+                    const milestones = editOptions.milestones.slice();
+                    if (issue.milestone && !milestones.some(milestone => milestone.number === issue.milestone.number)) {
+                        milestones.push(issue.milestone);
+                    }
+                    document.getElementById('edit-milestone').innerHTML = '<option value="">No milestone</option>' + milestones.map(milestone =>
+                        '<option value="' + milestone.number + '"' + (issue.milestone && issue.milestone.number === milestone.number ? ' selected' : '') + '>' + escapeHtml(milestone.title) + '</option>'
+                    ).join('');
+                }
+
+                function saveIssue() {
+                    const title = document.getElementById('edit-title').value.trim();
+                    if (!title) {
+                        alert('Please enter a title');
+                        return;
+                    }
+                    const changes = {
+                        title,
+                        body: document.getElementById('edit-body').value
+                    };
+                    // Only send pickers once they are populated, so an unloaded list never clears labels or assignees
+                    if (editOptions) {
+                        const milestone = document.getElementById('edit-milestone').value;
+                        changes.labels = Array.from(document.getElementById('edit-labels').selectedOptions).map(option => option.value);
+                        changes.assignees = Array.from(document.getElementById('edit-assignees').selectedOptions).map(option => option.value);
+                        changes.milestone = milestone ? parseInt(milestone, 10) : null;
+                    }
+                    document.getElementById('save-issue-btn').disabled = true;
+                    vscode.postMessage({ type: 'updateIssue', issueNumber: currentIssue, changes });
+                }
+
+                function renderDiscussion() {
+                    const container = document.getElementById('discussion-container');
+                    const entries = issueComments.map(comment => ({ at: comment.created_at, comment }))
+                        .concat(issueTimeline.map(event => ({ at: event.created_at, event })))
+                        .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+                    if (entries.length === 0) {
+                        container.innerHTML = '<div style="color: var(--vscode-descriptionForeground); text-align: center; padding: 20px;">No comments yet</div>';
+                        return;
+                    }
+
+                    container.innerHTML = entries.map(entry => {
+                        if (entry.event) {
+                            return '<div class="timeline-event">' + describeEvent(entry.event) + ' • ' + new Date(entry.at).toLocaleString() + '</div>';
+                        }
+                        return '<div class="comment">' +
+                            '<div class="comment-header"><strong>' + escapeHtml(entry.comment.user.login) + '</strong> commented ' + new Date(entry.at).toLocaleString() + '</div>' +
+                            '<div class="comment-body">' + entry.comment.body_html + '</div>' +
+                        '</div>';
+                    }).join('');
+                }
+
+                function describeEvent(event) {
+                    const actor = '<strong>' + escapeHtml(event.actor ? event.actor.login : 'someone') + '</strong>';
+                    const label = event.label ? renderLabel(event.label) : '';
+                    const commit = event.commit_id ? '<code>' + event.commit_id.substring(0, 7) + '</code>' : '';
+                    switch (event.event) {
+                        case 'labeled':
+                            return actor + ' added the ' + label + ' label';
+                        case 'unlabeled':
+                            return actor + ' removed the ' + label + ' label';
+                        case 'assigned':
+                            return event.assignee && event.actor && event.assignee.login === event.actor.login
+                                ? actor + ' self-assigned this'
+                                : actor + ' assigned ' + escapeHtml(event.assignee ? event.assignee.login : 'someone');
+                        case 'unassigned':
+                            return actor + ' unassigned ' + escapeHtml(event.assignee ? event.assignee.login : 'someone');
+                        case 'milestoned':
+                            return actor + ' added this to the ' + escapeHtml(event.milestone.title) + ' milestone';
+                        case 'demilestoned':
+                            return actor + ' removed this from the ' + escapeHtml(event.milestone.title) + ' milestone';
+                        case 'renamed':
+                            return actor + ' changed the title from <em>' + escapeHtml(event.rename.from) + '</em> to <em>' + escapeHtml(event.rename.to) + '</em>';
+                        case 'referenced':
+                            return actor + ' referenced this in commit ' + commit;
+                        case 'cross-referenced': {
+                            const source = event.source && event.source.issue;
+                            if (!source) {
+                                return actor + ' mentioned this';
+                            }
+                            const kind = source.pull_request ? 'pull request' : 'issue';
+                            return actor + ' mentioned this in ' + kind + ' <a href="' + source.html_url + '">#' + source.number + ' ' + escapeHtml(source.title) + '</a>';
+                        }
+                        case 'closed':
+                            return actor + ' closed this' + (event.state_reason === 'not_planned' ? ' as not planned' : ' as completed') + (commit ? ' in commit ' + commit : '');
+                        case 'reopened':
+                            return actor + ' reopened this';
+                        default:
+                            return actor + ' ' + escapeHtml(event.event);
+                    }
+                }
+
+                function showCommentTab(tab) {
+                    const textarea = document.getElementById('new-issue-comment');
+                    const preview = document.getElementById('comment-preview');
+                    document.getElementById('comment-write-tab').classList.toggle('active', tab === 'write');
+                    document.getElementById('comment-preview-tab').classList.toggle('active', tab === 'preview');
+                    textarea.style.display = tab === 'write' ? 'block' : 'none';
+                    preview.style.display = tab === 'preview' ? 'block' : 'none';
+                    if (tab === 'preview') {
+                        preview.innerHTML = '<div class="loading">Rendering preview...</div>';
+                        vscode.postMessage({ type: 'previewMarkdown', text: textarea.value, target: 'comment' });
+                    }
+                }
+
+                function addIssueComment() {
+                    if (!currentIssue) return;
+                    const textarea = document.getElementById('new-issue-comment');
+                    const body = textarea.value.trim();
+                    if (!body) {
+                        alert('Please enter a comment');
+                        return;
+                    }
+                    textarea.disabled = true;
+                    vscode.postMessage({ type: 'addIssueComment', issueNumber: currentIssue, body });
+                }
+
+                function renderItemHeader(item) {
+                    document.getElementById('item-title').textContent = '#' + item.number + ' ' + item.title;
+                    document.getElementById('item-meta').textContent = (item.type === 'issue' ? 'Issue' : 'Pull Request') + ' by ' + item.user.login +
+                        ' • Created ' + new Date(item.created_at).toLocaleDateString() + ' • ' + item.state;
+                    currentLabels = item.labels || [];
+                    renderHeaderLabels();
+                }
+
+                function renderHeaderLabels() {
+                    document.getElementById('item-labels').innerHTML = currentLabels.map(renderLabel).join('');
+                }
+
+                function renderLabel(label) {
+                    const color = /^[0-9a-f]{6}$/i.test(label.color || '') ? label.color : 'ededed';
+                    const r = parseInt(color.substring(0, 2), 16);
+                    const g = parseInt(color.substring(2, 4), 16);
+                    const b = parseInt(color.substring(4, 6), 16);
+                    const text = (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#000000' : '#ffffff';
+                    return '<span class="label" style="background-color: #' + color + '; color: ' + text + ';" title="' + escapeHtml(label.description || '') + '">' + escapeHtml(label.name) + '</span>';
+                }
+
+                function toggleLabelPicker() {
+                    const picker = document.getElementById('details-label-picker');
+                    const opening = picker.style.display === 'none';
+                    picker.style.display = opening ? 'block' : 'none';
+                    if (opening) {
+                        if (repoLabels) {
+                            renderDetailsLabelPicker();
+                        } else {
+                            vscode.postMessage({ type: 'loadLabels' });
+                        }
+                    }
+                }
+
+                function renderDetailsLabelPicker() {
+                    const selected = currentLabels.map(label => label.name);
+                    document.getElementById('details-label-list').innerHTML = repoLabels.length === 0
+                        ? '<div class="loading">This repository has no labels</div>'
+                        : repoLabels.map(label =>
+                            '<label class="label-option"><input type="checkbox" value="' + escapeHtml(label.name) + '"' + (selected.includes(label.name) ? ' checked' : '') + '>' + renderLabel(label) + '</label>'
+                        ).join('');
+                }
+
+                function applyDetailsLabels() {
+                    const labels = Array.from(document.querySelectorAll('#details-label-list input'))
+                        .filter(input => input.checked)
+                        .map(input => input.value);
+                    vscode.postMessage({ type: 'setLabels', number: currentPR || currentIssue, labels });
+                    document.getElementById('details-label-picker').style.display = 'none';
+                }
+
+                renderHeaderLabels();
+
+                // Everything is fetched on open; the panel stays in sync through itemUpdated messages
+                if (currentPR) {
+                    loadPRDetails();
+                    loadComments();
+                } else {
+                    loadIssueDetails();
+                }
             </script>
         </body>
         </html>`;
@@ -1,54 +1,83 @@
 import * as vscode from 'vscode';
 import { devDashProvider } from './devDashProvider';
 import { debugChannel } from './debugChannel';
-
-class GitHubDashboardProvider implements vscode.TreeDataProvider<string> {
-
-    getTreeItem(element: string): vscode.TreeItem {
-        const item = new vscode.TreeItem(element, vscode.TreeItemCollapsibleState.None);
-        item.command = {
-            command: 'devDash.openViewer',
-            title: 'Open Dashboard',
-            arguments: []
-        };
-        item.iconPath = new vscode.ThemeIcon('github');
-        return item;
-    }
-
-    getChildren(element?: string): string[] {
-        if (!element) {
-            return ['Open GitHub Dashboard'];
-        }
-        return [];
-    }
-}
+import { PRContentProvider } from './prContentProvider';
+import { ResponseCache } from './responseCache';
+import { NotificationPoller } from './notificationPoller';
+import { DashboardTreeProvider, DashboardNode } from './dashboardTreeProvider';
 
 export function activate(context: vscode.ExtensionContext) {
     debugChannel.info('Extension activating...');
+
+    // Must exist before any GitHubService so every client shares the persisted cache
+    const responseCache = ResponseCache.initialize(context.globalStorageUri);
     
     // Register tree data provider for sidebar
-    const treeDataProvider = new GitHubDashboardProvider();
+    const treeDataProvider = new DashboardTreeProvider(context.extensionUri, context.workspaceState);
     const treeDataProviderDisposable = vscode.window.registerTreeDataProvider('devDashboard', treeDataProvider);
+
+    const treeCommandDisposables = [
+        vscode.commands.registerCommand('devDash.tree.openDetails', (node: DashboardNode) => treeDataProvider.openDetails(node)),
+        vscode.commands.registerCommand('devDash.tree.checkoutPR', (node: DashboardNode) => treeDataProvider.checkoutPR(node)),
+        vscode.commands.registerCommand('devDash.tree.openInBrowser', (node: DashboardNode) => treeDataProvider.openInBrowser(node)),
+        vscode.commands.registerCommand('devDash.tree.copyLink', (node: DashboardNode) => treeDataProvider.copyLink(node))
+    ];
+
+    // Read-only file contents for PR diffs, fetched from GitHub without a local checkout
+    const prContentProvider = new PRContentProvider();
+    const prContentProviderDisposable = vscode.workspace.registerTextDocumentContentProvider(
+        PRContentProvider.scheme,
+        prContentProvider
+    );
     
     const openViewerDisposable = vscode.commands.registerCommand('devDash.openViewer', () => {
         debugChannel.log('Opening GitHub Viewer');
-        devDashProvider.createOrShow(context.extensionUri);
+        devDashProvider.createOrShow(context.extensionUri, context.workspaceState);
+    });
+
+    const selectRemoteDisposable = vscode.commands.registerCommand('devDash.selectRemote', async () => {
+        debugChannel.log('Selecting dashboard remote');
+        await devDashProvider.selectRemote(context.extensionUri, context.workspaceState);
+    });
+
+    // Background polling is opt-in and keeps running while the dashboard panel is closed
+    const notificationPoller = new NotificationPoller(context);
+    if (NotificationPoller.isEnabled()) {
+        notificationPoller.start();
+    }
+    const notificationSettingsDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('devDash.notifications.enabled')) {
+            if (NotificationPoller.isEnabled()) {
+                notificationPoller.start();
+            } else {
+                notificationPoller.stop();
+            }
+        }
     });
 
     const showDebugDisposable = vscode.commands.registerCommand('devDash.showDebugChannel', () => {
         debugChannel.show();
     });
 
-    const refreshDisposable = vscode.commands.registerCommand('devDash.refresh', () => {
+    // Invoked from the view title without arguments, or inline on a category with its node
+    const refreshDisposable = vscode.commands.registerCommand('devDash.refresh', (node?: DashboardNode) => {
         debugChannel.log('Refreshing GitHub Dashboard');
-        devDashProvider.createOrShow(context.extensionUri);
+        treeDataProvider.refresh(node);
     });
 
     context.subscriptions.push(
         treeDataProviderDisposable,
+        treeDataProvider,
+        ...treeCommandDisposables,
+        prContentProviderDisposable,
+        prContentProvider,
         openViewerDisposable, 
+        selectRemoteDisposable,
         showDebugDisposable, 
         refreshDisposable,
+        notificationSettingsDisposable,
+        notificationPoller,
+        responseCache,
         debugChannel
     );
     
@@ -0,0 +1,112 @@
+import { execFile } from 'child_process';
+import * as vscode from 'vscode';
+import { debugChannel } from './debugChannel';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const NETWORK_TIMEOUT_MS = 120000;
+const MAX_OUTPUT_BYTES = 32 * 1024 * 1024;
+
+export interface GitRunOptions {
+    /** Milliseconds before the git process is killed; network commands default to a longer limit */
+    timeout?: number;
+    token?: vscode.CancellationToken;
+    /** Written to stdin, for batch commands like cat-file --batch-check */
+    input?: string;
+}
+
+export class GitError extends Error {
+    constructor(
+        public readonly args: string[],
+        public readonly exitCode: number | null,
+        public readonly stderr: string,
+        public readonly stdout: string,
+        public readonly timedOut: boolean = false,
+        public readonly cancelled: boolean = false
+    ) {
+        super(GitError.describe(args, exitCode, stderr, timedOut, cancelled));
+        this.name = 'GitError';
+    }
+
+    private static describe(args: string[], exitCode: number | null, stderr: string, timedOut: boolean, cancelled: boolean): string {
+        const command = `git ${args[0] || ''}`.trim();
+        if (cancelled) {
+            return `${command} was cancelled`;
+        }
+        if (timedOut) {
+            return `${command} timed out`;
+        }
+        const detail = stderr.trim().split('\n').filter(line => line.length > 0).pop();
+        return `${command} failed${exitCode !== null ? ` (exit code ${exitCode})` : ''}${detail ? `: ${detail}` : ''}`;
+    }
+}
+
+/**
+ * Runs git with an argument array and no shell, so branch names and URLs are never
+ * interpreted as shell syntax. Resolves with trimmed stdout and rejects with a GitError.
+ */
+export function runGit(cwd: string, args: string[], options: GitRunOptions = {}): Promise<string> {
+    const isNetwork = ['fetch', 'pull', 'push', 'clone', 'ls-remote'].includes(args[0]);
+    const timeout = options.timeout ?? (isNetwork ? NETWORK_TIMEOUT_MS : DEFAULT_TIMEOUT_MS);
+
+    return new Promise((resolve, reject) => {
+        if (options.token?.isCancellationRequested) {
+            reject(new GitError(args, null, '', '', false, true));
+            return;
+        }
+
+        let cancelled = false;
+        const child = execFile('git', args, {
+            cwd,
+            encoding: 'utf8',
+            timeout,
+            maxBuffer: MAX_OUTPUT_BYTES,
+            windowsHide: true,
+            // Never block on a credential prompt that nobody can answer
+            env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+        }, (error, stdout, stderr) => {
+            cancellation?.dispose();
+            if (!error) {
+                resolve(stdout.trim());
+                return;
+            }
+
+            const exitCode = typeof error.code === 'number' ? error.code : null;
+            const timedOut = !cancelled && !!error.killed && exitCode === null;
+            const gitError = new GitError(args, exitCode, stderr || error.message, stdout, timedOut, cancelled);
+            debugChannel.log('Git command failed', { args, exitCode, timedOut, cancelled, stderr });
+            reject(gitError);
+        });
+
+        const cancellation = options.token?.onCancellationRequested(() => {
+            cancelled = true;
+            child.kill();
+        });
+
+        if (options.input !== undefined) {
+            child.stdin?.end(options.input);
+        }
+    });
+}
+
+/** Resolves true when the git command exits successfully, for existence checks like show-ref */
+export async function gitSucceeds(cwd: string, args: string[], options: GitRunOptions = {}): Promise<boolean> {
+    try {
+        await runGit(cwd, args, options);
+        return true;
+    } catch (error) {
+        if (error instanceof GitError && (error.cancelled || error.timedOut)) {
+            throw error;
+        }
+        return false;
+    }
+}
+
+/**
+ * Rejects names git would parse as options or refuse as branch names. Arguments are
+ * never shell-interpreted, but "-" prefixed values would still reach git as flags.
+ */
+export function assertValidBranchName(name: string): void {
+    if (!name || name.startsWith('-') || /[\s~^:?*[\\\x00-\x1f\x7f]/.test(name) || name.includes('..') || name.includes('@{') || name.endsWith('.lock') || name.endsWith('/') || name.endsWith('.')) {
+        throw new Error(`Invalid branch name: ${name}`);
+    }
+}
@@ -1,32 +1,406 @@
 import { Octokit } from '@octokit/rest';
 import * as vscode from 'vscode';
-import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
 import { debugChannel } from './debugChannel';
+import { runGit, gitSucceeds, assertValidBranchName } from './gitRunner';
+import { parseRemoteUrl, readSshHostAliases, ParsedRemoteUrl } from './remoteUrl';
+import { ResponseCache } from './responseCache';
+import { RateLimitTracker } from './rateLimit';
 import { marked } from 'marked';
+import * as sanitizeHtml from 'sanitize-html';
+import { parse as parseYaml } from 'yaml';
+import { parse as parseJsonc, modify as modifyJsonc, applyEdits, ParseError, printParseErrorCode } from 'jsonc-parser';
 
 export interface RepositoryInfo {
     owner: string;
     repo: string;
+    /** Remote hostname, github.com unless the remote is a configured enterprise host */
+    host?: string;
+}
+
+export interface GitHubRemote {
+    name: string;
+    url: string;
+    owner: string;
+    repo: string;
+    host: string;
+}
+
+export interface WorkspaceRepository {
+    /** Repository root on disk */
+    path: string;
+    name: string;
+    owner: string;
+    repo: string;
+    host: string;
+}
+
+export type MyWorkCategory = 'reviewRequested' | 'authored' | 'assigned' | 'mentioned';
+
+export type MyWork = Record<MyWorkCategory, any[]>;
+
+const MY_WORK_QUERIES: Record<MyWorkCategory, string> = {
+    reviewRequested: 'is:open is:pr review-requested:@me archived:false',
+    authored: 'is:open is:pr author:@me archived:false',
+    assigned: 'is:open is:issue assignee:@me archived:false',
+    mentioned: 'is:open is:issue mentions:@me archived:false'
+};
+
+export interface IssueUpdate {
+    title?: string;
+    body?: string;
+    labels?: string[];
+    assignees?: string[];
+    /** Milestone number, or null to clear it */
+    milestone?: number | null;
+    state?: 'open' | 'closed';
+    state_reason?: 'completed' | 'not_planned' | 'reopened';
+}
+
+/** Timeline events shown in issue details; comments are listed separately */
+const ISSUE_TIMELINE_EVENTS = [
+    'labeled', 'unlabeled', 'assigned', 'unassigned', 'milestoned', 'demilestoned', 'renamed',
+    'referenced', 'cross-referenced', 'closed', 'reopened'
+];
+
+/** A named set of Issues or PRs tab filters, kept per repository or shared through .vscode/devdash.json */
+export interface SavedView {
+    name: string;
+    tab: 'issues' | 'prs';
+    query: string;
+    status: string;
+    sort?: string;
+    groupBy?: string;
+    /** Set on views read from the committed devdash.json rather than workspace state */
+    shared?: boolean;
+}
+
+/** Workspace-relative path of the team's shared dashboard settings */
+export const SHARED_VIEWS_FILE = path.join('.vscode', 'devdash.json');
+const SHARED_VIEWS_FORMATTING = { insertSpaces: true, tabSize: 4, eol: '\n' };
+
+export interface NotificationPoll {
+    notifications: any[];
+    /** Echo back as If-Modified-Since on the next poll */
+    lastModified?: string;
+    /** Seconds GitHub asks clients to wait between polls */
+    pollInterval: number;
+    notModified: boolean;
+}
+
+export interface EnterpriseHost {
+    host: string;
+    apiUrl: string;
+}
+
+export const GITHUB_HOST = 'github.com';
+const REPOSITORY_SCAN_DEPTH = 3;
+const REPOSITORY_SCAN_SKIP = new Set(['node_modules', 'bower_components', 'vendor', 'dist', 'out', 'build', 'target']);
+
+export interface PagedResult<T = any> {
+    items: T[];
+    page: number;
+    hasMore: boolean;
+}
+
+export type IssueStateFilter = 'open' | 'closed' | 'all';
+export type PullRequestStateFilter = 'open' | 'closed' | 'merged' | 'all';
+
+export type PullRequestReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+export type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+export interface MergeabilityResult {
+    mergeable: boolean;
+    reason?: string;
+    mergeableState?: string;
+}
+
+export interface MergeOptions {
+    method: MergeMethod;
+    commitTitle?: string;
+    commitMessage?: string;
+    deleteBranch?: boolean;
+}
+
+export interface WorkflowDispatchInput {
+    name: string;
+    description?: string;
+    required: boolean;
+    type: string;
+    default?: string;
+    options?: string[];
+}
+
+export interface WorkflowDispatchInfo {
+    dispatchable: boolean;
+    ref: string;
+    inputs: WorkflowDispatchInput[];
+}
+
+export type CIState = 'success' | 'failure' | 'pending' | 'neutral' | 'none';
+
+export interface CICheck {
+    name: string;
+    source: 'status' | 'check';
+    state: CIState;
+    description?: string;
+    url?: string;
+}
+
+export interface CIStatus {
+    state: CIState;
+    total: number;
+    passed: number;
+    failed: number;
+    pending: number;
+    checks: CICheck[];
+}
+
+export interface ReviewThread {
+    id?: string;
+    rootCommentId: number;
+    path: string;
+    line: number | null;
+    side?: string;
+    diffHunk: string;
+    isResolved: boolean;
+    isOutdated: boolean;
+    comments: any[];
+}
+
+export interface NewReviewComment {
+    path: string;
+    line: number;
+    side: 'LEFT' | 'RIGHT';
+    body: string;
+}
+
+export interface BranchStatus {
+    current: string;
+    upstream?: string;
+    /** Head for a new PR: the upstream branch name, prefixed with its owner when it lives in a fork */
+    head: string;
+    ahead: number;
+    pushed: boolean;
+}
+
+export interface NewPullRequest {
+    title: string;
+    head: string;
+    base: string;
+    body?: string;
+    draft?: boolean;
+    reviewers?: string[];
+    labels?: string[];
+}
+
+export interface PRBranchRef {
+    number: number;
+    headRef: string;
+    headSha: string;
+    /** False for fork PRs, whose head branch name says nothing about branches of the base repository */
+    sameRepository: boolean;
+}
+
+export interface PRBranchState {
+    localBranch?: string;
+    isCurrent: boolean;
+    onRemote: boolean;
+    headAvailable: boolean;
+    ahead: number;
+    behind: number;
+}
+
+const PULL_REQUEST_TEMPLATE_PATHS = [
+    '.github/pull_request_template.md',
+    '.github/PULL_REQUEST_TEMPLATE.md',
+    'pull_request_template.md',
+    'PULL_REQUEST_TEMPLATE.md',
+    'docs/pull_request_template.md',
+    'docs/PULL_REQUEST_TEMPLATE.md'
+];
+
+const PAGE_SIZE = 100;
+
+/** Sort fields GitHub's issue search accepts */
+const SEARCH_SORTS = [
+    'comments', 'created', 'updated', 'interactions', 'reactions',
+    'reactions-+1', 'reactions--1', 'reactions-smile', 'reactions-thinking_face', 'reactions-heart', 'reactions-tada'
+] as const;
+
+/** What GitHub-flavored Markdown produces; scripts, styles, event handlers and non-web URLs are dropped */
+const MARKDOWN_SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: sanitizeHtml.defaults.allowedTags.concat(['img', 'h1', 'h2', 'del', 'ins', 'details', 'summary', 'input', 'picture', 'source']),
+    allowedAttributes: {
+        a: ['href', 'title', 'name'],
+        img: ['src', 'alt', 'title', 'width', 'height', 'align'],
+        source: ['srcset', 'media'],
+        code: ['class'],
+        td: ['align'],
+        th: ['align'],
+        ol: ['start'],
+        details: ['open'],
+        input: ['type', 'checked', 'disabled']
+    },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    allowedSchemesByTag: { img: ['http', 'https', 'data'] },
+    // Task list items are the only inputs Markdown creates
+    exclusiveFilter: frame => frame.tag === 'input' && frame.attribs.type !== 'checkbox'
+};
+
+/** Signed-in clients per host, shared by a service and the host-bound services made from it */
+interface ClientRegistry {
+    clients: Map<string, Octokit>;
+    /** Sign-ins in progress, so concurrent first requests raise a single prompt */
+    signIns: Map<string, Promise<void>>;
+}
+
+/** Why a pull request can or cannot be merged, from the mergeable fields of the pull request response */
+export function describeMergeability(pr: any): MergeabilityResult {
+    const mergeableState = pr.mergeable_state;
+    if (pr.merged) {
+        return { mergeable: false, mergeableState, reason: 'This pull request has already been merged.' };
+    }
+    if (pr.state !== 'open') {
+        return { mergeable: false, mergeableState, reason: 'This pull request is closed. Reopen it before merging.' };
+    }
+    if (pr.draft || mergeableState === 'draft') {
+        return { mergeable: false, mergeableState, reason: 'This pull request is still a draft.' };
+    }
+    if (pr.mergeable === false || mergeableState === 'dirty') {
+        return { mergeable: false, mergeableState, reason: 'This branch has conflicts that must be resolved.' };
+    }
+    switch (mergeableState) {
+        case 'blocked':
+            return { mergeable: false, mergeableState, reason: 'Merging is blocked by branch protection (required reviews or status checks).' };
+        case 'behind':
+            return { mergeable: false, mergeableState, reason: 'The head branch is out of date with the base branch.' };
+        case 'unknown':
+        case undefined:
+        case null:
+            return { mergeable: false, mergeableState, reason: 'GitHub is still computing mergeability. Try again in a moment.' };
+        default:
+            // clean, unstable (non-required checks failing) and has_hooks can be merged
+            return { mergeable: true, mergeableState };
+    }
 }
 
 export class GitHubService {
-    private octokit: Octokit | null = null;
+    private host: string = GITHUB_HOST;
+    private readonly registry: ClientRegistry;
+    private readonly configListener: vscode.Disposable | undefined;
+
+    /** Sign-in is deferred to the first API call, once the host that call needs is known */
+    constructor(private readonly workspaceState?: vscode.Memento, registry?: ClientRegistry) {
+        if (registry) {
+            this.registry = registry;
+            return;
+        }
+        this.registry = { clients: new Map(), signIns: new Map() };
+        this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('devDash.enterpriseHosts')) {
+                // API URLs may have changed, so enterprise clients are rebuilt on next use
+                for (const host of Array.from(this.registry.clients.keys())) {
+                    if (host !== GITHUB_HOST) {
+                        this.registry.clients.delete(host);
+                    }
+                }
+            }
+        });
+    }
 
-    constructor() {
-        this.initializeOctokit();
+    dispose(): void {
+        this.configListener?.dispose();
     }
 
-    private async initializeOctokit() {
-        try {
-            debugChannel.log('Initializing GitHub authentication...');
-            const session = await vscode.authentication.getSession('github', ['repo'], { createIfNone: true });
-            this.octokit = new Octokit({
-                auth: session.accessToken
+    private get octokit(): Octokit | null {
+        return this.registry.clients.get(this.host) || null;
+    }
+
+    static getEnterpriseHosts(): EnterpriseHost[] {
+        const configured = vscode.workspace.getConfiguration('devDash').get<Array<{ host?: string; apiUrl?: string }>>('enterpriseHosts', []);
+        return configured
+            .filter(entry => entry && entry.host)
+            .map(entry => {
+                const host = entry.host!.trim().toLowerCase();
+                return {
+                    host,
+                    apiUrl: (entry.apiUrl || `https://${host}/api/v3`).replace(/\/+$/, '')
+                };
             });
-            debugChannel.info('GitHub authentication successful');
+    }
+
+    /** A service whose API calls go to the given host, sharing sign-ins with this one */
+    forHost(host: string | undefined): GitHubService {
+        const normalized = (host || GITHUB_HOST).toLowerCase();
+        if (normalized === this.host) {
+            return this;
+        }
+        const service = new GitHubService(this.workspaceState, this.registry);
+        service.host = normalized;
+        return service;
+    }
+
+    getHost(): string {
+        return this.host;
+    }
+
+    private getAuthTarget(): { providerId: string; baseUrl?: string } {
+        if (this.host === GITHUB_HOST) {
+            return { providerId: 'github' };
+        }
+        const enterprise = GitHubService.getEnterpriseHosts().find(entry => entry.host === this.host);
+        return {
+            providerId: 'github-enterprise',
+            baseUrl: enterprise ? enterprise.apiUrl : `https://${this.host}/api/v3`
+        };
+    }
+
+    private createClient(accessToken: string, baseUrl?: string): Octokit {
+        const client = new Octokit({
+            auth: accessToken,
+            ...(baseUrl ? { baseUrl } : {})
+        });
+        // Cached responses are per account, so the scope carries a token fingerprint rather than the token
+        const fingerprint = createHash('sha256').update(accessToken).digest('hex').slice(0, 16);
+        // Hooks attached later run first: cache hits never reach the rate limiter or the network
+        RateLimitTracker.getInstance().attach(client, `${this.host}:${fingerprint}`);
+        ResponseCache.getInstance().attach(client, `${this.host}:${fingerprint}`);
+        return client;
+    }
+
+    /** Runs fn against cached responses only, for painting the dashboard before the network answers */
+    readFromCache<T>(fn: () => Promise<T>): Promise<T> {
+        return ResponseCache.getInstance().readOnly(fn);
+    }
+
+    private async initializeOctokit(): Promise<void> {
+        const host = this.host;
+        let signIn = this.registry.signIns.get(host);
+        if (!signIn) {
+            signIn = this.signIn().finally(() => this.registry.signIns.delete(host));
+            this.registry.signIns.set(host, signIn);
+        }
+        await signIn;
+    }
+
+    private async signIn(): Promise<void> {
+        const host = this.host;
+        const { providerId, baseUrl } = this.getAuthTarget();
+        try {
+            debugChannel.log('Initializing GitHub authentication...', { host, providerId });
+            const session = await vscode.authentication.getSession(providerId, ['repo'], { createIfNone: true });
+            this.registry.clients.set(host, this.createClient(session.accessToken, baseUrl));
+            debugChannel.info('GitHub authentication successful', { host });
         } catch (error) {
-            debugChannel.error('Failed to authenticate with GitHub', error as Error);
-            vscode.window.showErrorMessage('Failed to authenticate with GitHub. Please sign in to your GitHub account in VS Code.');
+            debugChannel.error(`Failed to authenticate with ${host}`, error as Error);
+            if (providerId === 'github-enterprise') {
+                vscode.window.showErrorMessage(`Failed to authenticate with ${host}. Make sure the "github-enterprise.uri" setting points to https://${host} and sign in to GitHub Enterprise in VS Code.`);
+            } else {
+                vscode.window.showErrorMessage('Failed to authenticate with GitHub. Please sign in to your GitHub account in VS Code.');
+            }
         }
     }
 
@@ -37,121 +411,325 @@ export class GitHubService {
         return this.octokit !== null;
     }
 
-    async getRepositoryInfo(workspacePath: string): Promise<RepositoryInfo | null> {
-        try {
-            debugChannel.log('Getting repository info', { workspacePath });
-            
-            // Check if this is a git repository first
+    async getGitHubRemotes(workspacePath: string): Promise<GitHubRemote[]> {
+        debugChannel.log('Listing GitHub remotes', { workspacePath });
+
+        // Check if this is a git repository first
+        if (!(await gitSucceeds(workspacePath, ['rev-parse', '--git-dir']))) {
+            debugChannel.warn('Not a git repository', { workspacePath });
+            return [];
+        }
+
+        const remotesOutput = await runGit(workspacePath, ['remote', '-v']);
+        const enterpriseHosts = GitHubService.getEnterpriseHosts();
+        const sshAliases = readSshHostAliases();
+        const remotes: GitHubRemote[] = [];
+
+        for (const line of remotesOutput.split('\n')) {
+            const [name, url, kind] = line.trim().split(/\s+/);
+            if (kind !== '(fetch)' || !url) {
+                continue;
+            }
+
+            const parsed = parseRemoteUrl(url, sshAliases);
+            debugChannel.log('Remote parse attempt', { name, url, parsed });
+            if (!parsed) {
+                continue;
+            }
+
+            const host = this.resolveGitHubHost(parsed, enterpriseHosts);
+            if (host) {
+                remotes.push({ name, url, owner: parsed.owner, repo: parsed.repo, host });
+            }
+        }
+
+        debugChannel.info(`Found ${remotes.length} GitHub remotes`, remotes.map(remote => remote.name));
+        return remotes;
+    }
+
+    /**
+     * Finds git repositories with a GitHub remote in the given folders: the repository each
+     * folder belongs to, plus nested repositories a few levels down.
+     */
+    async discoverRepositories(folderPaths: string[]): Promise<WorkspaceRepository[]> {
+        debugChannel.log('Discovering repositories', { folderPaths });
+        const roots = new Set<string>();
+
+        for (const folderPath of folderPaths) {
             try {
-                execSync('git rev-parse --git-dir', { 
-                    cwd: workspacePath,
-                    encoding: 'utf8',
-                    stdio: 'pipe'
-                });
+                roots.add(path.resolve(await runGit(folderPath, ['rev-parse', '--show-toplevel'])));
             } catch (error) {
-                debugChannel.warn('Not a git repository', { workspacePath });
-                return null;
+                // The folder itself is not inside a repository; nested ones may still exist
             }
-            
-            const remotesOutput = execSync('git remote -v', { 
-                cwd: workspacePath,
-                encoding: 'utf8' 
-            });
+            for (const nested of await this.findNestedRepositories(folderPath, REPOSITORY_SCAN_DEPTH)) {
+                roots.add(path.resolve(nested));
+            }
+        }
 
-            const fetchRemotes = remotesOutput
-                .split('\n')
-                .filter(line => line.includes('(fetch)'));
-
-            for (const remote of fetchRemotes) {
-                // Try to match github.com pattern first
-                //let match = remote.match(/github\.com[:/]([^/]+)\/([^/\s]+?)(?:\.git)?[\s\t]/);
-                let match = remote.match(/github.com[:/]([^/]+)\/([^/\s]+?)(?:\.git)?[\s\t]/);
-                debugChannel.log('Remote pattern match attempt', { remote, match });
-                if (match) {
-                    const repoInfo = {
-                        owner: match[1],
-                        repo: match[2]
-                    };
-                    debugChannel.info('Repository info found', repoInfo);
-                    return repoInfo;
-                }
+        const repositories: WorkspaceRepository[] = [];
+        for (const root of Array.from(roots).sort()) {
+            const remote = await this.getSelectedRemote(root);
+            if (remote) {
+                repositories.push({
+                    path: root,
+                    name: path.basename(root),
+                    owner: remote.owner,
+                    repo: remote.repo,
+                    host: remote.host
+                });
+            }
+        }
 
-                // Try to match SSH alias pattern (alias:owner/repo)
-                match = remote.match(/([^@\s]+)[@:]([^/]+)\/([^/\s]+?)(?:\.git)?[\s\t]/);
-                if (match) {
-                    // Check if this might be a GitHub alias by looking for typical patterns
-                    const host = match[1];
-                    const repo = match[2];
-                    const owner = match[2].split(':').pop() || match[2]
-                    // Skip if it looks like a non-GitHub host (has dots, common self-hosted patterns)
-                    if (!host.includes('.') && !host.includes('gitlab') && !host.includes('bitbucket')) {
-                        const repoInfo = {
-                            owner: owner,
-                            repo: match[3]
-                        };
-                        debugChannel.info('Repository info found via SSH alias', repoInfo);
-                        return repoInfo;
-                    }
-                }
+        debugChannel.info(`Discovered ${repositories.length} GitHub repositories`, repositories.map(repository => repository.path));
+        return repositories;
+    }
+
+    private async findNestedRepositories(directory: string, depth: number): Promise<string[]> {
+        if (depth <= 0) {
+            return [];
+        }
+
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        } catch (error) {
+            return [];
+        }
+
+        const found: string[] = [];
+        for (const entry of entries) {
+            if (!entry.isDirectory() || entry.name.startsWith('.') || REPOSITORY_SCAN_SKIP.has(entry.name)) {
+                continue;
+            }
+            const child = path.join(directory, entry.name);
+            // .git is a directory for clones and a file for submodules and worktrees
+            if (fs.existsSync(path.join(child, '.git'))) {
+                found.push(child);
             }
+            found.push(...await this.findNestedRepositories(child, depth - 1));
+        }
+        return found;
+    }
 
-            debugChannel.warn('No GitHub repository info found');
-            return null;
+    private resolveGitHubHost(parsed: ParsedRemoteUrl, enterpriseHosts: EnterpriseHost[]): string | null {
+        // ssh.github.com serves SSH over port 443 for networks that block port 22
+        if (parsed.host === GITHUB_HOST || parsed.host === `www.${GITHUB_HOST}` || parsed.host === `ssh.${GITHUB_HOST}`) {
+            return GITHUB_HOST;
+        }
+        const enterprise = enterpriseHosts.find(entry => entry.host === parsed.host);
+        if (enterprise) {
+            return enterprise.host;
+        }
+        // An SSH alias missing from ~/.ssh/config is most likely a GitHub account alias
+        if (parsed.protocol === 'ssh' && !parsed.host.includes('.') && !parsed.host.includes('gitlab') && !parsed.host.includes('bitbucket')) {
+            return GITHUB_HOST;
+        }
+        return null;
+    }
+
+    getSelectedRemoteName(workspacePath: string): string | undefined {
+        return this.workspaceState?.get<string>(`devDash.selectedRemote:${workspacePath}`);
+    }
+
+    async setSelectedRemote(workspacePath: string, remoteName: string): Promise<void> {
+        debugChannel.log('Selecting remote', { workspacePath, remoteName });
+        await this.workspaceState?.update(`devDash.selectedRemote:${workspacePath}`, remoteName);
+    }
+
+    getSavedViews(owner: string, repo: string): SavedView[] {
+        return this.workspaceState?.get<SavedView[]>(`devDash.savedViews:${owner}/${repo}`.toLowerCase(), []) || [];
+    }
+
+    async setSavedViews(owner: string, repo: string, views: SavedView[]): Promise<void> {
+        debugChannel.log('Saving views', { owner, repo, count: views.length });
+        await this.workspaceState?.update(`devDash.savedViews:${owner}/${repo}`.toLowerCase(), views);
+    }
+
+    /** Views committed to .vscode/devdash.json; a missing or malformed file means no shared views */
+    async getSharedViews(workspacePath: string): Promise<SavedView[]> {
+        let settings: any;
+        try {
+            ({ settings } = await this.readSharedSettings(workspacePath));
+        } catch (error) {
+            debugChannel.warn(`Ignoring malformed ${SHARED_VIEWS_FILE}`, error as Error);
+            return [];
+        }
+        const views = Array.isArray(settings.views) ? settings.views : [];
+        return views
+            .filter((view: any) => view && typeof view.name === 'string' && (view.tab === 'issues' || view.tab === 'prs'))
+            .map((view: any) => ({
+                name: view.name,
+                tab: view.tab,
+                query: typeof view.query === 'string' ? view.query : '',
+                status: typeof view.status === 'string' ? view.status : 'open',
+                sort: view.sort,
+                groupBy: view.groupBy,
+                shared: true
+            }));
+    }
+
+    /**
+     * Adds a shared view or replaces the one with the same name. Only that entry is edited, so comments,
+     * other settings, unknown fields of the replaced view and entries this version rejects all survive.
+     */
+    async saveSharedView(workspacePath: string, view: SavedView): Promise<void> {
+        const { content, settings } = await this.readSharedSettings(workspacePath);
+        const { shared, ...entry } = view;
+        const existing: any[] | undefined = Array.isArray(settings.views) ? settings.views : undefined;
+        const index = existing ? existing.findIndex(candidate => candidate?.name === view.name) : -1;
+
+        let edited: string;
+        if (!existing) {
+            edited = applyEdits(content, modifyJsonc(content, ['views'], [entry], { formattingOptions: SHARED_VIEWS_FORMATTING }));
+        } else if (index >= 0) {
+            edited = applyEdits(content, modifyJsonc(content, ['views', index], { ...existing[index], ...entry }, { formattingOptions: SHARED_VIEWS_FORMATTING }));
+        } else {
+            edited = applyEdits(content, modifyJsonc(content, ['views', -1], entry, { formattingOptions: SHARED_VIEWS_FORMATTING, isArrayInsertion: true }));
+        }
+        await this.writeSharedSettings(workspacePath, edited);
+    }
+
+    /** Removes every shared view with this name and leaves the rest of the file as written */
+    async deleteSharedView(workspacePath: string, name: string): Promise<void> {
+        let { content, settings } = await this.readSharedSettings(workspacePath);
+        const existing: any[] = Array.isArray(settings.views) ? settings.views : [];
+        // A missing file has no views, so it is left missing rather than created
+        if (!existing.some(candidate => candidate?.name === name)) {
+            debugChannel.warn('No shared view to delete', { workspacePath, name });
+            return;
+        }
+        // From the end, so earlier indexes stay valid while removing
+        for (let index = existing.length - 1; index >= 0; index--) {
+            if (existing[index]?.name === name) {
+                content = applyEdits(content, modifyJsonc(content, ['views', index], undefined, { formattingOptions: SHARED_VIEWS_FORMATTING }));
+            }
+        }
+        await this.writeSharedSettings(workspacePath, content);
+    }
+
+    private async writeSharedSettings(workspacePath: string, content: string): Promise<void> {
+        const filePath = path.join(workspacePath, SHARED_VIEWS_FILE);
+        debugChannel.log('Writing shared views', { filePath });
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, content.endsWith('\n') ? content : content + '\n', 'utf8');
+    }
+
+    /** The file is hand-edited, so comments and trailing commas are accepted like in VS Code's own settings */
+    private async readSharedSettings(workspacePath: string): Promise<{ content: string; settings: any }> {
+        const filePath = path.join(workspacePath, SHARED_VIEWS_FILE);
+        let content: string;
+        try {
+            content = await fs.promises.readFile(filePath, 'utf8');
+        } catch {
+            return { content: '', settings: {} };
+        }
+        const errors: ParseError[] = [];
+        const settings = parseJsonc(content, errors, { allowTrailingComma: true });
+        if (errors.length > 0) {
+            throw new Error(`${SHARED_VIEWS_FILE} is not valid JSON: ${printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}`);
+        }
+        if (content.trim() === '') {
+            return { content, settings: {} };
+        }
+        if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+            throw new Error(`${SHARED_VIEWS_FILE} must contain a JSON object`);
+        }
+        return { content, settings };
+    }
+
+    /** Picks the remembered remote, then origin, then the first GitHub remote */
+    async getSelectedRemote(workspacePath: string): Promise<GitHubRemote | null> {
+        const remotes = await this.getGitHubRemotes(workspacePath);
+        const selectedName = this.getSelectedRemoteName(workspacePath);
+        return remotes.find(remote => remote.name === selectedName)
+            || remotes.find(remote => remote.name === 'origin')
+            || remotes[0]
+            || null;
+    }
+
+    async getRepositoryInfo(workspacePath: string): Promise<RepositoryInfo | null> {
+        try {
+            debugChannel.log('Getting repository info', { workspacePath });
+            const remote = await this.getSelectedRemote(workspacePath);
+            if (!remote) {
+                debugChannel.warn('No GitHub repository info found');
+                return null;
+            }
+
+            const repoInfo = { owner: remote.owner, repo: remote.repo, host: remote.host };
+            debugChannel.info('Repository info found', { ...repoInfo, remote: remote.name });
+            return repoInfo;
         } catch (error) {
             debugChannel.error('Error getting repository info', error as Error);
             return null;
         }
     }
 
-    async getIssues(owner: string, repo: string) {
+    async getIssues(owner: string, repo: string, page: number = 1, state: IssueStateFilter = 'open'): Promise<PagedResult> {
         if (!(await this.ensureAuthenticated())) {
             throw new Error('GitHub authentication failed');
         }
 
         try {
-            debugChannel.log('Fetching issues', { owner, repo });
+            debugChannel.log('Fetching issues', { owner, repo, page, state });
             const response = await this.octokit!.rest.issues.listForRepo({
                 owner,
                 repo,
-                state: 'open',
-                per_page: 100,
+                state,
+                per_page: PAGE_SIZE,
+                page,
                 sort: 'updated',
                 direction: 'desc'
             });
 
+            // The issues endpoint also returns PRs, so a page may hold fewer issues than PAGE_SIZE
             const issues = response.data.filter(issue => !issue.pull_request);
-            debugChannel.info(`Fetched ${issues.length} issues`);
-            return issues;
+            const hasMore = this.hasNextPage(response.headers.link);
+            debugChannel.info(`Fetched ${issues.length} issues (page ${page}, more: ${hasMore})`);
+            return { items: issues, page, hasMore };
         } catch (error) {
             debugChannel.error('Error fetching issues', error as Error);
             throw error;
         }
     }
 
-    async getPullRequests(owner: string, repo: string) {
+    async getPullRequests(owner: string, repo: string, page: number = 1, state: PullRequestStateFilter = 'open'): Promise<PagedResult> {
         if (!(await this.ensureAuthenticated())) {
             throw new Error('GitHub authentication failed');
         }
 
         try {
-            debugChannel.log('Fetching pull requests', { owner, repo });
+            debugChannel.log('Fetching pull requests', { owner, repo, page, state });
+            // GitHub has no "merged" state: merged PRs are closed PRs with merged_at set
             const response = await this.octokit!.rest.pulls.list({
                 owner,
                 repo,
-                state: 'open',
-                per_page: 100,
+                state: state === 'merged' ? 'closed' : state,
+                per_page: PAGE_SIZE,
+                page,
                 sort: 'updated',
                 direction: 'desc'
             });
 
-            debugChannel.info(`Fetched ${response.data.length} pull requests`);
-            return response.data;
+            const prs = response.data
+                .map(pr => ({
+                    ...pr,
+                    state: pr.merged_at ? 'merged' : pr.state
+                }))
+                .filter(pr => state === 'all' || pr.state === state);
+            const hasMore = this.hasNextPage(response.headers.link);
+            debugChannel.info(`Fetched ${prs.length} pull requests (page ${page}, more: ${hasMore})`);
+            return { items: prs, page, hasMore };
         } catch (error) {
             debugChannel.error('Error fetching pull requests', error as Error);
             throw error;
         }
     }
 
+    private hasNextPage(linkHeader?: string): boolean {
+        return !!linkHeader && linkHeader.includes('rel="next"');
+    }
+
     async getCurrentUser() {
         if (!(await this.ensureAuthenticated())) {
             throw new Error('GitHub authentication failed');
@@ -168,21 +746,222 @@ export class GitHubService {
         }
     }
 
+    /** Open PRs and issues involving the signed-in user across every repository they can see */
+    async getMyWork(): Promise<MyWork> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching my work');
+            const categories = Object.keys(MY_WORK_QUERIES) as MyWorkCategory[];
+            // Sequential on purpose: the search API allows only 30 requests a minute
+            const work = {} as MyWork;
+            for (const category of categories) {
+                const response = await this.octokit!.rest.search.issuesAndPullRequests({
+                    q: MY_WORK_QUERIES[category],
+                    sort: 'updated',
+                    order: 'desc',
+                    per_page: 50
+                });
+                work[category] = response.data.items.map(item => ({
+                    ...item,
+                    repository: this.parseRepositoryUrl(item.repository_url)
+                }));
+            }
+
+            debugChannel.info('My work loaded', Object.fromEntries(categories.map(category => [category, work[category].length])));
+            return work;
+        } catch (error) {
+            debugChannel.error('Error fetching my work', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Runs a GitHub search query against one repository for qualifiers the dashboard cannot
+     * evaluate on the loaded items. A sort:field[-asc|-desc] qualifier becomes the API sort order.
+     */
+    async searchRepositoryItems(owner: string, repo: string, kind: 'issues' | 'prs', query: string): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            const sortMatch = query.match(/(?:^|\s)sort:([\w+-]+?)(?:-(asc|desc))?(?=\s|$)/);
+            const sort = sortMatch ? SEARCH_SORTS.find(candidate => candidate === sortMatch[1].toLowerCase()) : undefined;
+            if (sortMatch && !sort) {
+                throw new Error(`Unsupported sort "${sortMatch[1]}"; use one of ${SEARCH_SORTS.join(', ')}`);
+            }
+            const q = `repo:${owner}/${repo} ${kind === 'issues' ? 'is:issue' : 'is:pr'} ${query.replace(/(?:^|\s)sort:\S+/g, ' ')}`.replace(/\s+/g, ' ').trim();
+            debugChannel.log('Searching repository', { q, sort });
+            const response = await this.octokit!.rest.search.issuesAndPullRequests({
+                q,
+                sort,
+                order: sortMatch?.[2] as 'asc' | 'desc' | undefined,
+                per_page: 50
+            });
+
+            debugChannel.info(`Search returned ${response.data.items.length} of ${response.data.total_count} items`);
+            // Search results report merged PRs as closed; the dashboard shows them as merged like the PR list does
+            return response.data.items.map(item => ({
+                ...item,
+                state: item.pull_request?.merged_at ? 'merged' : item.state
+            }));
+        } catch (error) {
+            debugChannel.error('Error searching repository', error as Error);
+            throw error;
+        }
+    }
+
+    async pollNotifications(lastModified?: string): Promise<NotificationPoll> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Polling notifications', { lastModified });
+            const response = await this.octokit!.rest.activity.listNotificationsForAuthenticatedUser({
+                per_page: 50,
+                headers: lastModified ? { 'if-modified-since': lastModified } : {}
+            });
+            const poll = {
+                notifications: response.data,
+                lastModified: response.headers['last-modified'],
+                pollInterval: parseInt(`${response.headers['x-poll-interval']}`, 10) || 60,
+                notModified: false
+            };
+            debugChannel.info(`Fetched ${poll.notifications.length} notifications`);
+            return poll;
+        } catch (error: any) {
+            if (error.status === 304) {
+                return {
+                    notifications: [],
+                    lastModified,
+                    pollInterval: parseInt(`${error.response?.headers['x-poll-interval']}`, 10) || 60,
+                    notModified: true
+                };
+            }
+            debugChannel.error('Error polling notifications', error as Error);
+            throw error;
+        }
+    }
+
+    /** Loads the issue or PR a notification points at, in the shape the details panel expects */
+    async getNotificationSubject(notification: any): Promise<any | null> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        const subjectUrl: string | null = notification.subject?.url;
+        if (!subjectUrl || !['Issue', 'PullRequest'].includes(notification.subject.type)) {
+            return null;
+        }
+
+        try {
+            debugChannel.log('Fetching notification subject', { subjectUrl });
+            const [owner, repo, , number] = subjectUrl.split('/repos/')[1].split('/');
+            // The issues endpoint serves both and returns the fields the item cards use
+            const response = await this.octokit!.rest.issues.get({
+                owner,
+                repo,
+                issue_number: parseInt(number, 10)
+            });
+            return {
+                ...response.data,
+                type: notification.subject.type === 'PullRequest' ? 'pr' : 'issue',
+                repository: { owner, repo, host: this.host }
+            };
+        } catch (error) {
+            debugChannel.error('Error fetching notification subject', error as Error);
+            throw error;
+        }
+    }
+
+    /** Notification threads for the inbox, for one repository when owner and repo are given */
+    async getNotifications(includeRead: boolean, owner?: string, repo?: string): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching notifications', { includeRead, owner, repo });
+            const response = owner && repo
+                ? await this.octokit!.rest.activity.listRepoNotificationsForAuthenticatedUser({ owner, repo, all: includeRead, per_page: 50 })
+                : await this.octokit!.rest.activity.listNotificationsForAuthenticatedUser({ all: includeRead, per_page: 50 });
+            debugChannel.info(`Fetched ${response.data.length} notifications`);
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error fetching notifications', error as Error);
+            throw error;
+        }
+    }
+
+    async markNotificationRead(threadId: string): Promise<void> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Marking notification as read', { threadId });
+            await this.octokit!.rest.activity.markThreadAsRead({ thread_id: parseInt(threadId, 10) });
+        } catch (error) {
+            debugChannel.error('Error marking notification as read', error as Error);
+            throw error;
+        }
+    }
+
+    /** Removes the thread from the inbox, like "Done" on github.com */
+    async markNotificationDone(threadId: string): Promise<void> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Marking notification as done', { threadId });
+            // Not among the generated endpoint methods of this Octokit version
+            await this.octokit!.request('DELETE /notifications/threads/{thread_id}', { thread_id: parseInt(threadId, 10) });
+        } catch (error) {
+            debugChannel.error('Error marking notification as done', error as Error);
+            throw error;
+        }
+    }
+
+    /** Mutes the thread until the user comments on it or is mentioned again */
+    async unsubscribeFromThread(threadId: string): Promise<void> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Unsubscribing from notification thread', { threadId });
+            await this.octokit!.rest.activity.deleteThreadSubscription({ thread_id: parseInt(threadId, 10) });
+        } catch (error) {
+            debugChannel.error('Error unsubscribing from notification thread', error as Error);
+            throw error;
+        }
+    }
+
+    private parseRepositoryUrl(repositoryUrl: string): RepositoryInfo {
+        // https://api.github.com/repos/{owner}/{repo}, or {host}/api/v3/repos/... on enterprise
+        const [owner, repo] = repositoryUrl.split('/repos/')[1].split('/');
+        return { owner, repo, host: this.host };
+    }
+
     async switchAccount(): Promise<void> {
         try {
             debugChannel.log('Switching GitHub account...');
             
             // Clear current authentication
-            this.octokit = null;
+            this.registry.clients.delete(this.host);
             
             // Force new authentication session
-            const session = await vscode.authentication.getSession('github', ['repo'], { 
+            const { providerId, baseUrl } = this.getAuthTarget();
+            const session = await vscode.authentication.getSession(providerId, ['repo'], { 
                 forceNewSession: true
             });
             
-            this.octokit = new Octokit({
-                auth: session.accessToken
-            });
+            this.registry.clients.set(this.host, this.createClient(session.accessToken, baseUrl));
             
             debugChannel.info('GitHub account switched successfully');
         } catch (error) {
@@ -204,66 +983,326 @@ export class GitHubService {
                 owner,
                 repo
             });
-
-            // If we can get the repo, check our permissions
-            try {
-                const permResponse = await this.octokit!.rest.repos.getCollaboratorPermissionLevel({
-                    owner,
-                    repo,
-                    username: (await this.getCurrentUser()).login
-                });
-                
-                debugChannel.info('Repository access confirmed', { 
-                    owner, 
-                    repo, 
-                    permission: permResponse.data.permission 
-                });
-                
-                return {
-                    hasAccess: true,
-                    permissions: permResponse.data
-                };
-            } catch (permError) {
-                // If we can't get permission info, but can see the repo, we likely have read access
-                debugChannel.info('Repository is accessible (public or read access)', { owner, repo });
-                return {
-                    hasAccess: true,
-                    permissions: { permission: 'read' }
-                };
-            }
-        } catch (error: any) {
-            if (error.status === 404) {
-                debugChannel.warn('Repository not found or no access', { owner, repo });
-                return {
-                    hasAccess: false,
-                    permissions: null
-                };
-            }
-            debugChannel.error('Error checking repository access', error as Error);
+
+            // If we can get the repo, check our permissions
+            try {
+                const permResponse = await this.octokit!.rest.repos.getCollaboratorPermissionLevel({
+                    owner,
+                    repo,
+                    username: (await this.getCurrentUser()).login
+                });
+                
+                debugChannel.info('Repository access confirmed', { 
+                    owner, 
+                    repo, 
+                    permission: permResponse.data.permission 
+                });
+                
+                return {
+                    hasAccess: true,
+                    permissions: permResponse.data
+                };
+            } catch (permError) {
+                // If we can't get permission info, but can see the repo, we likely have read access
+                debugChannel.info('Repository is accessible (public or read access)', { owner, repo });
+                return {
+                    hasAccess: true,
+                    permissions: { permission: 'read' }
+                };
+            }
+        } catch (error: any) {
+            if (error.status === 404) {
+                debugChannel.warn('Repository not found or no access', { owner, repo });
+                return {
+                    hasAccess: false,
+                    permissions: null
+                };
+            }
+            debugChannel.error('Error checking repository access', error as Error);
+            throw error;
+        }
+    }
+
+    async createIssue(owner: string, repo: string, title: string, body?: string, labels?: string[], assignees?: string[]): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Creating issue', { owner, repo, title, assignees });
+            const response = await this.octokit!.rest.issues.create({
+                owner,
+                repo,
+                title,
+                body: body || '',
+                labels: labels || [],
+                assignees: assignees || []
+            });
+
+            debugChannel.info(`Created issue #${response.data.number}: ${title}`);
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error creating issue', error as Error);
+            throw error;
+        }
+    }
+
+    async getIssue(owner: string, repo: string, issueNumber: number): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching issue', { owner, repo, issueNumber });
+            const response = await this.octokit!.rest.issues.get({
+                owner,
+                repo,
+                issue_number: issueNumber
+            });
+
+            return {
+                ...response.data,
+                body_html: this.renderMarkdown(response.data.body || '')
+            };
+        } catch (error) {
+            debugChannel.error('Error fetching issue', error as Error);
+            throw error;
+        }
+    }
+
+    async getIssueComments(owner: string, repo: string, issueNumber: number): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching issue comments', { owner, repo, issueNumber });
+            // Pages are oldest first, so stopping after one would drop the newest comments of long discussions
+            const comments = await this.octokit!.paginate('GET /repos/{owner}/{repo}/issues/{issue_number}/comments', {
+                owner,
+                repo,
+                issue_number: issueNumber,
+                per_page: 100
+            });
+
+            debugChannel.info(`Fetched ${comments.length} issue comments`);
+            return comments.map(comment => ({
+                ...comment,
+                comment_type: 'issue',
+                body_html: this.renderMarkdown(comment.body || '')
+            }));
+        } catch (error) {
+            debugChannel.error('Error fetching issue comments', error as Error);
+            throw error;
+        }
+    }
+
+    async addIssueComment(owner: string, repo: string, issueNumber: number, body: string): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Adding issue comment', { owner, repo, issueNumber });
+            const response = await this.octokit!.rest.issues.createComment({
+                owner,
+                repo,
+                issue_number: issueNumber,
+                body
+            });
+
+            debugChannel.info(`Issue comment added: #${response.data.id}`);
+            return {
+                ...response.data,
+                comment_type: 'issue',
+                body_html: this.renderMarkdown(response.data.body || '')
+            };
+        } catch (error) {
+            debugChannel.error('Error adding issue comment', error as Error);
+            throw error;
+        }
+    }
+
+    /** Label, assignment, milestone, reference and state changes, oldest first */
+    async getIssueTimeline(owner: string, repo: string, issueNumber: number): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching issue timeline', { owner, repo, issueNumber });
+            const timeline = await this.octokit!.paginate('GET /repos/{owner}/{repo}/issues/{issue_number}/timeline', {
+                owner,
+                repo,
+                issue_number: issueNumber,
+                per_page: 100
+            });
+
+            const events = (timeline as any[]).filter(event => ISSUE_TIMELINE_EVENTS.includes(event.event));
+            debugChannel.info(`Fetched ${events.length} timeline events`);
+            return events;
+        } catch (error) {
+            debugChannel.error('Error fetching issue timeline', error as Error);
+            throw error;
+        }
+    }
+
+    async updateIssue(owner: string, repo: string, issueNumber: number, changes: IssueUpdate): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Updating issue', { owner, repo, issueNumber, fields: Object.keys(changes) });
+            const response = await this.octokit!.rest.issues.update({
+                owner,
+                repo,
+                issue_number: issueNumber,
+                ...changes,
+                // The API clears the milestone when given null, which the generated types do not allow
+                milestone: changes.milestone as number | undefined
+            });
+
+            debugChannel.info(`Updated issue #${issueNumber}`);
+            return {
+                ...response.data,
+                body_html: this.renderMarkdown(response.data.body || '')
+            };
+        } catch (error) {
+            debugChannel.error('Error updating issue', error as Error);
+            throw error;
+        }
+    }
+
+    async getRepositoryLabels(owner: string, repo: string): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching repository labels', { owner, repo });
+            const response = await this.octokit!.rest.issues.listLabelsForRepo({
+                owner,
+                repo,
+                per_page: 100
+            });
+
+            debugChannel.info(`Fetched ${response.data.length} labels`);
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error fetching labels', error as Error);
+            throw error;
+        }
+    }
+
+    /** Replaces the labels on an issue or PR and returns the resulting labels */
+    async setIssueLabels(owner: string, repo: string, issueNumber: number, labels: string[]): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Setting issue labels', { owner, repo, issueNumber, labels });
+            const response = await this.octokit!.rest.issues.setLabels({
+                owner,
+                repo,
+                issue_number: issueNumber,
+                labels
+            });
+
+            debugChannel.info(`Set ${response.data.length} labels on #${issueNumber}`);
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error setting issue labels', error as Error);
+            throw error;
+        }
+    }
+
+    async createLabel(owner: string, repo: string, name: string, color: string, description?: string): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Creating label', { owner, repo, name, color });
+            const response = await this.octokit!.rest.issues.createLabel({
+                owner,
+                repo,
+                name,
+                color: color.replace(/^#/, ''),
+                description
+            });
+
+            debugChannel.info(`Created label ${name}`);
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error creating label', error as Error);
+            throw error;
+        }
+    }
+
+    /** Renames and/or recolours a label; every issue and PR carrying it follows */
+    async updateLabel(owner: string, repo: string, name: string, changes: { newName?: string, color?: string, description?: string }): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Updating label', { owner, repo, name, changes });
+            const response = await this.octokit!.rest.issues.updateLabel({
+                owner,
+                repo,
+                name,
+                new_name: changes.newName,
+                color: changes.color?.replace(/^#/, ''),
+                description: changes.description
+            });
+
+            debugChannel.info(`Updated label ${name}`);
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error updating label', error as Error);
+            throw error;
+        }
+    }
+
+    async deleteLabel(owner: string, repo: string, name: string): Promise<void> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Deleting label', { owner, repo, name });
+            await this.octokit!.rest.issues.deleteLabel({
+                owner,
+                repo,
+                name
+            });
+            debugChannel.info(`Deleted label ${name}`);
+        } catch (error) {
+            debugChannel.error('Error deleting label', error as Error);
             throw error;
         }
     }
 
-    async createIssue(owner: string, repo: string, title: string, body?: string, labels?: string[], assignees?: string[]): Promise<any> {
+    async getMilestones(owner: string, repo: string): Promise<any[]> {
         if (!(await this.ensureAuthenticated())) {
             throw new Error('GitHub authentication failed');
         }
 
         try {
-            debugChannel.log('Creating issue', { owner, repo, title, assignees });
-            const response = await this.octokit!.rest.issues.create({
+            debugChannel.log('Fetching milestones', { owner, repo });
+            const response = await this.octokit!.rest.issues.listMilestones({
                 owner,
                 repo,
-                title,
-                body: body || '',
-                labels: labels || [],
-                assignees: assignees || []
+                state: 'open',
+                per_page: 100
             });
 
-            debugChannel.info(`Created issue #${response.data.number}: ${title}`);
+            debugChannel.info(`Fetched ${response.data.length} milestones`);
             return response.data;
         } catch (error) {
-            debugChannel.error('Error creating issue', error as Error);
+            debugChannel.error('Error fetching milestones', error as Error);
             throw error;
         }
     }
@@ -320,14 +1359,231 @@ export class GitHubService {
         }
     }
 
+    async getDefaultBranch(owner: string, repo: string): Promise<string> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching default branch', { owner, repo });
+            const response = await this.octokit!.rest.repos.get({
+                owner,
+                repo
+            });
+
+            debugChannel.info(`Default branch: ${response.data.default_branch}`);
+            return response.data.default_branch;
+        } catch (error) {
+            debugChannel.error('Error fetching default branch', error as Error);
+            throw error;
+        }
+    }
+
+    async getBranchStatus(workspacePath: string, baseRepository?: RepositoryInfo): Promise<BranchStatus> {
+        debugChannel.log('Getting branch status', { workspacePath });
+        const current = await runGit(workspacePath, ['rev-parse', '--abbrev-ref', 'HEAD']);
+
+        let upstream: string | undefined;
+        try {
+            upstream = await runGit(workspacePath, ['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{u}']);
+        } catch (error) {
+            // No upstream configured means the branch was never pushed
+        }
+
+        let ahead = 0;
+        let head = current;
+        if (upstream) {
+            ahead = parseInt(await runGit(workspacePath, ['rev-list', '--count', '@{u}..HEAD']), 10) || 0;
+            head = await this.getUpstreamHead(workspacePath, current, baseRepository);
+        }
+
+        const status = { current, upstream, head, ahead, pushed: !!upstream && ahead === 0 };
+        debugChannel.info('Branch status', status);
+        return status;
+    }
+
+    /** The upstream branch may have another name than the local one, and fork heads need an owner: prefix */
+    private async getUpstreamHead(workspacePath: string, current: string, baseRepository?: RepositoryInfo): Promise<string> {
+        try {
+            const remoteName = await runGit(workspacePath, ['config', '--get', `branch.${current}.remote`]);
+            const mergeRef = await runGit(workspacePath, ['config', '--get', `branch.${current}.merge`]);
+            const branch = mergeRef.replace(/^refs\/heads\//, '');
+            const remote = (await this.getGitHubRemotes(workspacePath)).find(candidate => candidate.name === remoteName);
+            const isFork = !!remote && !!baseRepository
+                && (remote.owner.toLowerCase() !== baseRepository.owner.toLowerCase()
+                    || remote.repo.toLowerCase() !== baseRepository.repo.toLowerCase());
+            return isFork ? `${remote!.owner}:${branch}` : branch;
+        } catch (error) {
+            debugChannel.warn('Could not read upstream branch configuration', error as Error);
+            return current;
+        }
+    }
+
+    getPullRequestTemplate(workspacePath: string): string {
+        for (const templatePath of PULL_REQUEST_TEMPLATE_PATHS) {
+            const fullPath = path.join(workspacePath, templatePath);
+            if (fs.existsSync(fullPath)) {
+                debugChannel.info('Found pull request template', { templatePath });
+                return fs.readFileSync(fullPath, 'utf8');
+            }
+        }
+        return '';
+    }
+
+    /** Creates the PR; reviewer and label requests that fail afterwards are returned as warnings */
+    async createPullRequest(owner: string, repo: string, options: NewPullRequest): Promise<{ pr: any; warnings: string[] }> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Creating pull request', { owner, repo, head: options.head, base: options.base, draft: options.draft });
+            const response = await this.octokit!.rest.pulls.create({
+                owner,
+                repo,
+                title: options.title,
+                head: options.head,
+                base: options.base,
+                body: options.body || '',
+                draft: !!options.draft
+            });
+            const pr = response.data;
+            debugChannel.info(`Created PR #${pr.number}: ${options.title}`);
+
+            // Reviewers and labels are separate endpoints; the PR exists even if these fail
+            const warnings: string[] = [];
+            if (options.reviewers && options.reviewers.length > 0) {
+                try {
+                    await this.octokit!.rest.pulls.requestReviewers({
+                        owner,
+                        repo,
+                        pull_number: pr.number,
+                        reviewers: options.reviewers
+                    });
+                } catch (reviewerError) {
+                    debugChannel.warn('Could not request reviewers', reviewerError as Error);
+                    warnings.push(`reviewers could not be requested (${(reviewerError as Error).message})`);
+                }
+            }
+            if (options.labels && options.labels.length > 0) {
+                try {
+                    await this.octokit!.rest.issues.addLabels({
+                        owner,
+                        repo,
+                        issue_number: pr.number,
+                        labels: options.labels
+                    });
+                } catch (labelError) {
+                    debugChannel.warn('Could not add labels', labelError as Error);
+                    warnings.push(`labels could not be added (${(labelError as Error).message})`);
+                }
+            }
+
+            return { pr, warnings };
+        } catch (error) {
+            debugChannel.error('Error creating pull request', error as Error);
+            throw error;
+        }
+    }
+
+    async getPRBranchStates(workspacePath: string, prs: PRBranchRef[]): Promise<Record<number, PRBranchState>> {
+        try {
+            debugChannel.log('Detecting PR branches', { workspacePath, count: prs.length });
+            const listRefs = async (prefix: string) => (await runGit(workspacePath, ['for-each-ref', '--format=%(refname:short)', prefix]))
+                .split('\n')
+                .filter(line => line.length > 0);
+
+            const localBranches = new Set(await listRefs('refs/heads'));
+            const remoteBranches = new Set(await listRefs('refs/remotes'));
+            const remote = await this.getSelectedRemote(workspacePath);
+            let currentBranch = '';
+            try {
+                currentBranch = await runGit(workspacePath, ['rev-parse', '--abbrev-ref', 'HEAD']);
+            } catch (error) {
+                // Repositories without commits have no HEAD yet
+            }
+
+            // One cat-file process answers for every head; lines come back in input order
+            const objectTypes = prs.length > 0
+                ? (await runGit(workspacePath, ['cat-file', '--batch-check=%(objecttype)'], { input: prs.map(pr => pr.headSha).join('\n') + '\n' })).split('\n')
+                : [];
+
+            const states: Record<number, PRBranchState> = {};
+            await Promise.all(prs.map(async (pr, index) => {
+                // Names created by checkoutPR and checkoutPRGitHubStyle; the bare head name only means this PR for same-repo branches
+                const candidates = [`pr-${pr.number}-${pr.headRef}`, `pr-${pr.number}`];
+                if (pr.sameRepository) {
+                    candidates.push(pr.headRef);
+                }
+                const localBranch = candidates.find(name => localBranches.has(name));
+                const headAvailable = objectTypes[index] === 'commit';
+
+                let ahead = 0;
+                let behind = 0;
+                if (localBranch && headAvailable) {
+                    const counts = (await runGit(workspacePath, ['rev-list', '--left-right', '--count', `refs/heads/${localBranch}...${pr.headSha}`])).split(/\s+/);
+                    ahead = parseInt(counts[0], 10) || 0;
+                    behind = parseInt(counts[1], 10) || 0;
+                }
+
+                states[pr.number] = {
+                    localBranch,
+                    isCurrent: !!localBranch && localBranch === currentBranch,
+                    onRemote: pr.sameRepository && !!remote && remoteBranches.has(`${remote.name}/${pr.headRef}`),
+                    headAvailable,
+                    ahead,
+                    behind
+                };
+            }));
+
+            debugChannel.info(`Detected local branches for ${Object.values(states).filter(state => state.localBranch).length} PRs`);
+            return states;
+        } catch (error) {
+            debugChannel.error('Error detecting PR branches', error as Error);
+            return {};
+        }
+    }
+
+    async switchToBranch(workspacePath: string, branchName: string): Promise<void> {
+        try {
+            debugChannel.log('Switching branch', { workspacePath, branchName });
+            assertValidBranchName(branchName);
+            await runGit(workspacePath, ['checkout', branchName]);
+            debugChannel.info(`Switched to branch: ${branchName}`);
+        } catch (error) {
+            debugChannel.error('Error switching branch', error as Error);
+            throw error;
+        }
+    }
+
+    async updatePRBranch(workspacePath: string, prNumber: number, branchName: string, token?: vscode.CancellationToken): Promise<void> {
+        try {
+            debugChannel.log('Updating PR branch', { workspacePath, prNumber, branchName });
+            // pull/<n>/head exists on the base repository for same-repo and fork PRs alike
+            assertValidBranchName(branchName);
+            const remote = await this.getSelectedRemote(workspacePath);
+            if (!remote) {
+                throw new Error('Could not determine repository information');
+            }
+            const currentBranch = await runGit(workspacePath, ['rev-parse', '--abbrev-ref', 'HEAD']);
+            if (currentBranch === branchName) {
+                await runGit(workspacePath, ['fetch', remote.name, `pull/${prNumber}/head`], { token });
+                await runGit(workspacePath, ['merge', '--ff-only', 'FETCH_HEAD'], { token });
+            } else {
+                // Fetching into a branch that is not checked out only succeeds as a fast-forward
+                await runGit(workspacePath, ['fetch', remote.name, `pull/${prNumber}/head:refs/heads/${branchName}`], { token });
+            }
+            debugChannel.info(`Updated branch ${branchName} to PR #${prNumber} head`);
+        } catch (error) {
+            debugChannel.error('Error updating PR branch', error as Error);
+            throw error;
+        }
+    }
+
     async getGitStashes(workspacePath: string): Promise<string[]> {
         try {
             debugChannel.log('Getting git stashes', { workspacePath });
-            const stashOutput = execSync('git stash list', {
-                cwd: workspacePath,
-                encoding: 'utf8',
-                stdio: 'pipe'
-            }).toString();
+            const stashOutput = await runGit(workspacePath, ['stash', 'list']);
 
             if (!stashOutput || stashOutput.trim() === '') {
                 debugChannel.info('No stashes found');
@@ -346,11 +1602,7 @@ export class GitHubService {
     async getUncommittedChanges(workspacePath: string): Promise<{ staged: string[], modified: string[], untracked: string[] }> {
         try {
             debugChannel.log('Getting uncommitted changes', { workspacePath });
-            const statusOutput = execSync('git status --porcelain', {
-                cwd: workspacePath,
-                encoding: 'utf8',
-                stdio: 'pipe'
-            }).toString();
+            const statusOutput = await runGit(workspacePath, ['status', '--porcelain']);
 
             const staged: string[] = [];
             const modified: string[] = [];
@@ -451,19 +1703,214 @@ export class GitHubService {
         }
     }
 
-    async checkoutPRGitHubStyle(workspacePath: string, prNumber: number): Promise<void> {
+    async getWorkflows(owner: string, repo: string): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching workflows', { owner, repo });
+            const response = await this.octokit!.rest.actions.listRepoWorkflows({
+                owner,
+                repo,
+                per_page: 100
+            });
+
+            debugChannel.info(`Fetched ${response.data.workflows.length} workflows`);
+            return response.data.workflows;
+        } catch (error) {
+            debugChannel.error('Error fetching workflows', error as Error);
+            throw error;
+        }
+    }
+
+    async getWorkflowRuns(owner: string, repo: string, workflowId?: number): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching workflow runs', { owner, repo, workflowId });
+            const response = workflowId
+                ? await this.octokit!.rest.actions.listWorkflowRuns({
+                    owner,
+                    repo,
+                    workflow_id: workflowId,
+                    per_page: 30
+                })
+                : await this.octokit!.rest.actions.listWorkflowRunsForRepo({
+                    owner,
+                    repo,
+                    per_page: 30
+                });
+
+            debugChannel.info(`Fetched ${response.data.workflow_runs.length} workflow runs`);
+            return response.data.workflow_runs;
+        } catch (error) {
+            debugChannel.error('Error fetching workflow runs', error as Error);
+            throw error;
+        }
+    }
+
+    async getWorkflowRunJobs(owner: string, repo: string, runId: number): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching workflow run jobs', { owner, repo, runId });
+            const response = await this.octokit!.rest.actions.listJobsForWorkflowRun({
+                owner,
+                repo,
+                run_id: runId,
+                per_page: 100
+            });
+
+            debugChannel.info(`Fetched ${response.data.jobs.length} jobs for run ${runId}`);
+            return response.data.jobs;
+        } catch (error) {
+            debugChannel.error('Error fetching workflow run jobs', error as Error);
+            throw error;
+        }
+    }
+
+    async getJobLogs(owner: string, repo: string, jobId: number): Promise<string> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Downloading job logs', { owner, repo, jobId });
+            // The API redirects to a short-lived log URL which Octokit follows for us
+            const response = await this.octokit!.rest.actions.downloadJobLogsForWorkflowRun({
+                owner,
+                repo,
+                job_id: jobId
+            });
+
+            const logs = typeof response.data === 'string' ? response.data : String(response.data);
+            debugChannel.info(`Downloaded ${logs.length} characters of logs for job ${jobId}`);
+            return logs;
+        } catch (error) {
+            debugChannel.error('Error downloading job logs', error as Error);
+            throw error;
+        }
+    }
+
+    async rerunFailedJobs(owner: string, repo: string, runId: number): Promise<void> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Re-running failed jobs', { owner, repo, runId });
+            await this.octokit!.rest.actions.reRunWorkflowFailedJobs({
+                owner,
+                repo,
+                run_id: runId
+            });
+            debugChannel.info(`Re-run requested for failed jobs of run ${runId}`);
+        } catch (error) {
+            debugChannel.error('Error re-running failed jobs', error as Error);
+            throw error;
+        }
+    }
+
+    async cancelWorkflowRun(owner: string, repo: string, runId: number): Promise<void> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Cancelling workflow run', { owner, repo, runId });
+            await this.octokit!.rest.actions.cancelWorkflowRun({
+                owner,
+                repo,
+                run_id: runId
+            });
+            debugChannel.info(`Cancellation requested for run ${runId}`);
+        } catch (error) {
+            debugChannel.error('Error cancelling workflow run', error as Error);
+            throw error;
+        }
+    }
+
+    async getWorkflowDispatchInfo(owner: string, repo: string, workflowPath: string): Promise<WorkflowDispatchInfo> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Reading workflow dispatch inputs', { owner, repo, workflowPath });
+            const repoResponse = await this.octokit!.rest.repos.get({ owner, repo });
+            const ref = repoResponse.data.default_branch;
+
+            const source = await this.getFileContent(owner, repo, workflowPath, ref);
+            const workflow = parseYaml(source) || {};
+            const triggers = workflow.on;
+
+            // `on` may be a single event name, a list of event names or a map of event configs
+            let dispatch: any = undefined;
+            if (typeof triggers === 'string') {
+                dispatch = triggers === 'workflow_dispatch' ? {} : undefined;
+            } else if (Array.isArray(triggers)) {
+                dispatch = triggers.includes('workflow_dispatch') ? {} : undefined;
+            } else if (triggers && typeof triggers === 'object' && 'workflow_dispatch' in triggers) {
+                dispatch = triggers.workflow_dispatch || {};
+            }
+
+            const inputs: WorkflowDispatchInput[] = Object.entries(dispatch?.inputs || {}).map(([name, config]: [string, any]) => ({
+                name,
+                description: config?.description,
+                required: !!config?.required,
+                type: config?.type || 'string',
+                default: config?.default !== undefined ? String(config.default) : undefined,
+                options: Array.isArray(config?.options) ? config.options.map(String) : undefined
+            }));
+
+            debugChannel.info('Workflow dispatch inputs read', { workflowPath, dispatchable: !!dispatch, inputs: inputs.length });
+            return { dispatchable: !!dispatch, ref, inputs };
+        } catch (error) {
+            debugChannel.error('Error reading workflow dispatch inputs', error as Error);
+            throw error;
+        }
+    }
+
+    async dispatchWorkflow(owner: string, repo: string, workflowId: number, ref: string, inputs: Record<string, string>): Promise<void> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Dispatching workflow', { owner, repo, workflowId, ref });
+            await this.octokit!.rest.actions.createWorkflowDispatch({
+                owner,
+                repo,
+                workflow_id: workflowId,
+                ref,
+                inputs
+            });
+            debugChannel.info(`Workflow ${workflowId} dispatched on ${ref}`);
+        } catch (error) {
+            debugChannel.error('Error dispatching workflow', error as Error);
+            throw error;
+        }
+    }
+
+    async checkoutPRGitHubStyle(workspacePath: string, prNumber: number, token?: vscode.CancellationToken): Promise<void> {
         try {
             debugChannel.log('Checking out PR (GitHub style)', { workspacePath, prNumber });
-            const repoInfo = await this.getRepositoryInfo(workspacePath);
+            const repoInfo = await this.getSelectedRemote(workspacePath);
             if (!repoInfo) {
                 throw new Error('Could not determine repository information');
             }
 
-            if (!(await this.ensureAuthenticated())) {
+            const github = this.forHost(repoInfo.host);
+            if (!(await github.ensureAuthenticated())) {
                 throw new Error('GitHub authentication failed');
             }
 
-            const prResponse = await this.octokit!.rest.pulls.get({
+            const prResponse = await github.octokit!.rest.pulls.get({
                 owner: repoInfo.owner,
                 repo: repoInfo.repo,
                 pull_number: prNumber
@@ -471,6 +1918,7 @@ export class GitHubService {
 
             const pr = prResponse.data;
             const branchName = pr.head.ref;
+            assertValidBranchName(branchName);
             const headRepo = pr.head.repo;
             
             // GitHub CLI style: pr-{number} or {username}:{branch} format
@@ -480,7 +1928,7 @@ export class GitHubService {
             if (headRepo?.full_name === `${repoInfo.owner}/${repoInfo.repo}`) {
                 // Same repo PR
                 targetBranchName = branchName;
-                remoteUrl = 'origin';
+                remoteUrl = repoInfo.name;
             } else {
                 // Fork PR - use GitHub CLI style naming
                 targetBranchName = `${pr.head.repo?.owner.login}:${branchName}`;
@@ -497,18 +1945,12 @@ export class GitHubService {
             if (headRepo?.full_name !== `${repoInfo.owner}/${repoInfo.repo}`) {
                 const remoteName = `pr-${prNumber}`;
                 try {
-                    execSync(`git remote add ${remoteName} ${remoteUrl}`, {
-                        cwd: workspacePath,
-                        stdio: 'pipe'
-                    });
+                    await runGit(workspacePath, ['remote', 'add', remoteName, remoteUrl]);
                     debugChannel.info(`Added remote: ${remoteName}`);
                 } catch (error) {
                     // Remote might already exist, try to update it
                     try {
-                        execSync(`git remote set-url ${remoteName} ${remoteUrl}`, {
-                            cwd: workspacePath,
-                            stdio: 'pipe'
-                        });
+                        await runGit(workspacePath, ['remote', 'set-url', remoteName, remoteUrl]);
                         debugChannel.info(`Updated remote: ${remoteName}`);
                     } catch (updateError) {
                         debugChannel.warn('Could not add/update remote', updateError as Error);
@@ -516,50 +1958,29 @@ export class GitHubService {
                 }
 
                 // Fetch the PR branch
-                execSync(`git fetch ${remoteName} ${branchName}`, {
-                    cwd: workspacePath,
-                    stdio: 'pipe'
-                });
+                await runGit(workspacePath, ['fetch', remoteName, branchName], { token });
 
                 // Create and checkout local branch
                 const localBranchName = `pr-${prNumber}`;
                 try {
-                    execSync(`git checkout -b ${localBranchName} ${remoteName}/${branchName}`, {
-                        cwd: workspacePath,
-                        stdio: 'pipe'
-                    });
+                    await runGit(workspacePath, ['checkout', '-b', localBranchName, `${remoteName}/${branchName}`]);
                     debugChannel.info(`Created and checked out: ${localBranchName}`);
                 } catch (error) {
                     // Branch might exist, just checkout
-                    execSync(`git checkout ${localBranchName}`, {
-                        cwd: workspacePath,
-                        stdio: 'pipe'
-                    });
-                    execSync(`git reset --hard ${remoteName}/${branchName}`, {
-                        cwd: workspacePath,
-                        stdio: 'pipe'
-                    });
+                    await runGit(workspacePath, ['checkout', localBranchName]);
+                    await runGit(workspacePath, ['reset', '--hard', `${remoteName}/${branchName}`]);
                     debugChannel.info(`Checked out and updated: ${localBranchName}`);
                 }
             } else {
                 // Same repo - just checkout the branch
-                execSync(`git fetch origin ${branchName}`, {
-                    cwd: workspacePath,
-                    stdio: 'pipe'
-                });
+                await runGit(workspacePath, ['fetch', repoInfo.name, branchName], { token });
 
                 try {
-                    execSync(`git checkout ${branchName}`, {
-                        cwd: workspacePath,
-                        stdio: 'pipe'
-                    });
+                    await runGit(workspacePath, ['checkout', branchName]);
                     debugChannel.info(`Checked out branch: ${branchName}`);
                 } catch (error) {
                     // Create local tracking branch
-                    execSync(`git checkout -b ${branchName} origin/${branchName}`, {
-                        cwd: workspacePath,
-                        stdio: 'pipe'
-                    });
+                    await runGit(workspacePath, ['checkout', '-b', branchName, `${repoInfo.name}/${branchName}`]);
                     debugChannel.info(`Created and checked out tracking branch: ${branchName}`);
                 }
             }
@@ -641,6 +2062,218 @@ export class GitHubService {
         }
     }
 
+    async getPRReviews(owner: string, repo: string, prNumber: number): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching PR reviews', { owner, repo, prNumber });
+            const response = await this.octokit!.rest.pulls.listReviews({
+                owner,
+                repo,
+                pull_number: prNumber,
+                per_page: 100
+            });
+
+            const reviews = response.data.map(review => ({
+                ...review,
+                body_html: this.renderMarkdown(review.body || '')
+            }));
+
+            debugChannel.info(`Fetched ${reviews.length} PR reviews`);
+            return reviews;
+        } catch (error) {
+            debugChannel.error('Error fetching PR reviews', error as Error);
+            throw error;
+        }
+    }
+
+    async submitPRReview(owner: string, repo: string, prNumber: number, event: PullRequestReviewEvent, body?: string): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Submitting PR review', { owner, repo, prNumber, event });
+            const response = await this.octokit!.rest.pulls.createReview({
+                owner,
+                repo,
+                pull_number: prNumber,
+                event,
+                body: body || undefined
+            });
+
+            debugChannel.info(`PR review submitted: #${response.data.id} (${response.data.state})`);
+            return {
+                ...response.data,
+                body_html: this.renderMarkdown(response.data.body || '')
+            };
+        } catch (error) {
+            debugChannel.error('Error submitting PR review', error as Error);
+            throw error;
+        }
+    }
+
+    async getReviewThreads(owner: string, repo: string, prNumber: number): Promise<ReviewThread[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching review threads', { owner, repo, prNumber });
+            const comments: any[] = [];
+            for (let page = 1; ; page++) {
+                const response = await this.octokit!.rest.pulls.listReviewComments({
+                    owner,
+                    repo,
+                    pull_number: prNumber,
+                    per_page: PAGE_SIZE,
+                    page
+                });
+                comments.push(...response.data);
+                if (!this.hasNextPage(response.headers.link)) {
+                    break;
+                }
+            }
+
+            // Replies point at the first comment of their thread through in_reply_to_id
+            const threads = new Map<number, ReviewThread>();
+            comments
+                .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+                .forEach(comment => {
+                    const rootId = comment.in_reply_to_id || comment.id;
+                    let thread = threads.get(rootId);
+                    if (!thread) {
+                        thread = {
+                            rootCommentId: rootId,
+                            path: comment.path,
+                            line: comment.line ?? comment.original_line ?? null,
+                            side: comment.side,
+                            diffHunk: comment.diff_hunk,
+                            isResolved: false,
+                            isOutdated: comment.line === null,
+                            comments: []
+                        };
+                        threads.set(rootId, thread);
+                    }
+                    thread.comments.push({
+                        ...comment,
+                        body_html: this.renderMarkdown(comment.body || '')
+                    });
+                });
+
+            // Resolution state and the thread ids needed to change it only exist in GraphQL
+            let after: string | null = null;
+            do {
+                const result: any = await this.octokit!.graphql(`
+                    query($owner: String!, $repo: String!, $number: Int!, $after: String) {
+                        repository(owner: $owner, name: $repo) {
+                            pullRequest(number: $number) {
+                                reviewThreads(first: 100, after: $after) {
+                                    pageInfo { hasNextPage endCursor }
+                                    nodes {
+                                        id
+                                        isResolved
+                                        isOutdated
+                                        comments(first: 1) {
+                                            nodes { databaseId }
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }`, { owner, repo, number: prNumber, after });
+
+                const reviewThreads = result.repository.pullRequest.reviewThreads;
+                for (const node of reviewThreads.nodes) {
+                    const thread = threads.get(node.comments.nodes[0]?.databaseId);
+                    if (thread) {
+                        thread.id = node.id;
+                        thread.isResolved = node.isResolved;
+                        thread.isOutdated = node.isOutdated;
+                    }
+                }
+                after = reviewThreads.pageInfo.hasNextPage ? reviewThreads.pageInfo.endCursor : null;
+            } while (after);
+
+            const reviewThreads = Array.from(threads.values());
+            debugChannel.info(`Fetched ${reviewThreads.length} review threads`);
+            return reviewThreads;
+        } catch (error) {
+            debugChannel.error('Error fetching review threads', error as Error);
+            throw error;
+        }
+    }
+
+    async replyToReviewComment(owner: string, repo: string, prNumber: number, commentId: number, body: string): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Replying to review comment', { owner, repo, prNumber, commentId });
+            const response = await this.octokit!.rest.pulls.createReplyForReviewComment({
+                owner,
+                repo,
+                pull_number: prNumber,
+                comment_id: commentId,
+                body
+            });
+
+            debugChannel.info(`Review reply added: #${response.data.id}`);
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error replying to review comment', error as Error);
+            throw error;
+        }
+    }
+
+    async createReviewComment(owner: string, repo: string, prNumber: number, comment: NewReviewComment): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Creating review comment', { owner, repo, prNumber, path: comment.path, line: comment.line });
+            const pr = await this.getPRDetails(owner, repo, prNumber);
+            const response = await this.octokit!.rest.pulls.createReviewComment({
+                owner,
+                repo,
+                pull_number: prNumber,
+                commit_id: pr.head.sha,
+                path: comment.path,
+                line: comment.line,
+                side: comment.side,
+                body: comment.body
+            });
+
+            debugChannel.info(`Review comment created: #${response.data.id}`);
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error creating review comment', error as Error);
+            throw error;
+        }
+    }
+
+    async setReviewThreadResolved(threadId: string, resolved: boolean): Promise<void> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Updating review thread resolution', { threadId, resolved });
+            const mutation = resolved
+                ? 'mutation($threadId: ID!) { resolveReviewThread(input: { threadId: $threadId }) { thread { id isResolved } } }'
+                : 'mutation($threadId: ID!) { unresolveReviewThread(input: { threadId: $threadId }) { thread { id isResolved } } }';
+            await this.octokit!.graphql(mutation, { threadId });
+            debugChannel.info(`Review thread ${resolved ? 'resolved' : 'unresolved'}: ${threadId}`);
+        } catch (error) {
+            debugChannel.error('Error updating review thread resolution', error as Error);
+            throw error;
+        }
+    }
+
     renderMarkdown(text: string): string {
         try {
             // Configure marked for GitHub-flavored markdown
@@ -650,10 +2283,11 @@ export class GitHubService {
             });
             
             const result = marked.parse(text);
-            return typeof result === 'string' ? result : text;
+            // Markdown passes raw HTML through, and bodies are written by anyone who can comment
+            return typeof result === 'string' ? sanitizeHtml(result, MARKDOWN_SANITIZE_OPTIONS) : sanitizeHtml(text, { allowedTags: [] });
         } catch (error) {
             debugChannel.error('Error rendering markdown', error as Error);
-            return text; // Fallback to plain text
+            return sanitizeHtml(text, { allowedTags: [] }); // Fallback to plain text
         }
     }
 
@@ -682,6 +2316,341 @@ export class GitHubService {
         }
     }
 
+    async getCIStatus(owner: string, repo: string, ref: string): Promise<CIStatus> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching CI status', { owner, repo, ref });
+            // Legacy commit statuses and check runs are separate APIs; GitHub's UI shows both
+            const [statusResponse, checksResponse] = await Promise.all([
+                this.octokit!.rest.repos.getCombinedStatusForRef({ owner, repo, ref, per_page: 100 }),
+                this.octokit!.rest.checks.listForRef({ owner, repo, ref, per_page: 100 })
+            ]);
+
+            const result = this.summarizeChecks([
+                ...statusResponse.data.statuses.map(status => ({
+                    name: status.context,
+                    source: 'status' as const,
+                    state: this.mapCommitStatusState(status.state),
+                    description: status.description || undefined,
+                    url: status.target_url || undefined
+                })),
+                ...checksResponse.data.check_runs.map(run => ({
+                    name: run.name,
+                    source: 'check' as const,
+                    state: this.mapCheckRunState(run.status, run.conclusion),
+                    description: run.output?.title || undefined,
+                    url: run.html_url || run.details_url || undefined
+                }))
+            ]);
+            debugChannel.info('CI status fetched', { ref, state: result.state, total: result.total });
+            return result;
+        } catch (error) {
+            debugChannel.error('Error fetching CI status', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * CI status of the head commit of each given PR in a single GraphQL request, for the PR list.
+     * PRs GitHub does not return (deleted, or no commits) are left out of the result.
+     */
+    async getCIStatuses(owner: string, repo: string, prNumbers: number[]): Promise<Record<number, CIStatus>> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+        if (prNumbers.length === 0) {
+            return {};
+        }
+
+        try {
+            debugChannel.log('Fetching CI statuses', { owner, repo, count: prNumbers.length });
+            // One aliased field per PR; the numbers are integers, so they are safe to inline
+            const fields = prNumbers.map(number => `
+                        pr${number}: pullRequest(number: ${number}) {
+                            number
+                            commits(last: 1) {
+                                nodes {
+                                    commit {
+                                        statusCheckRollup {
+                                            contexts(first: 100) {
+                                                nodes {
+                                                    __typename
+                                                    ... on CheckRun { name status conclusion title url detailsUrl }
+                                                    ... on StatusContext { context state description targetUrl }
+                                                }
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        }`).join('');
+            const result: any = await this.octokit!.graphql(`
+                query($owner: String!, $repo: String!) {
+                    repository(owner: $owner, name: $repo) {${fields}
+                    }
+                }`, { owner, repo });
+
+            const statuses: Record<number, CIStatus> = {};
+            for (const pr of Object.values<any>(result.repository)) {
+                if (!pr) {
+                    continue;
+                }
+                const contexts = pr.commits.nodes[0]?.commit.statusCheckRollup?.contexts.nodes || [];
+                statuses[pr.number] = this.summarizeChecks(contexts.map((context: any): CICheck => context.__typename === 'CheckRun'
+                    ? {
+                        name: context.name,
+                        source: 'check',
+                        state: this.mapCheckRunState(context.status.toLowerCase(), context.conclusion?.toLowerCase() || null),
+                        description: context.title || undefined,
+                        url: context.url || context.detailsUrl || undefined
+                    }
+                    : {
+                        name: context.context,
+                        source: 'status',
+                        state: this.mapCommitStatusState(context.state.toLowerCase()),
+                        description: context.description || undefined,
+                        url: context.targetUrl || undefined
+                    }));
+            }
+
+            debugChannel.info(`CI statuses fetched for ${Object.keys(statuses).length} PRs`);
+            return statuses;
+        } catch (error) {
+            debugChannel.error('Error fetching CI statuses', error as Error);
+            throw error;
+        }
+    }
+
+    private summarizeChecks(checks: CICheck[]): CIStatus {
+        const passed = checks.filter(check => check.state === 'success').length;
+        const failed = checks.filter(check => check.state === 'failure').length;
+        const pending = checks.filter(check => check.state === 'pending').length;
+
+        let state: CIState = 'none';
+        if (failed > 0) {
+            state = 'failure';
+        } else if (pending > 0) {
+            state = 'pending';
+        } else if (passed > 0) {
+            state = 'success';
+        } else if (checks.length > 0) {
+            state = 'neutral';
+        }
+
+        return { state, total: checks.length, passed, failed, pending, checks };
+    }
+
+    private mapCommitStatusState(state: string): CIState {
+        switch (state) {
+            case 'success':
+                return 'success';
+            case 'failure':
+            case 'error':
+                return 'failure';
+            default:
+                return 'pending';
+        }
+    }
+
+    private mapCheckRunState(status: string, conclusion: string | null): CIState {
+        if (status !== 'completed') {
+            return 'pending';
+        }
+        switch (conclusion) {
+            case 'success':
+                return 'success';
+            case 'neutral':
+            case 'skipped':
+            case 'stale':
+                return 'neutral';
+            default:
+                // failure, cancelled, timed_out, action_required, startup_failure
+                return 'failure';
+        }
+    }
+
+    async getPRFiles(owner: string, repo: string, prNumber: number): Promise<any[]> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching PR files', { owner, repo, prNumber });
+            const files: any[] = [];
+            for (let page = 1; ; page++) {
+                const response = await this.octokit!.rest.pulls.listFiles({
+                    owner,
+                    repo,
+                    pull_number: prNumber,
+                    per_page: PAGE_SIZE,
+                    page
+                });
+                files.push(...response.data);
+                if (!this.hasNextPage(response.headers.link)) {
+                    break;
+                }
+            }
+
+            debugChannel.info(`Fetched ${files.length} changed files for PR #${prNumber}`);
+            return files;
+        } catch (error) {
+            debugChannel.error('Error fetching PR files', error as Error);
+            throw error;
+        }
+    }
+
+    async getPRDiffRefs(owner: string, repo: string, prNumber: number): Promise<{ baseSha: string; headSha: string }> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Resolving PR diff refs', { owner, repo, prNumber });
+            const pr = await this.getPRDetails(owner, repo, prNumber);
+
+            // GitHub diffs against the merge base, not the current tip of the base branch
+            const comparison = await this.octokit!.rest.repos.compareCommits({
+                owner,
+                repo,
+                base: pr.base.sha,
+                head: pr.head.sha,
+                per_page: 1
+            });
+
+            const refs = { baseSha: comparison.data.merge_base_commit.sha, headSha: pr.head.sha };
+            debugChannel.info('PR diff refs resolved', refs);
+            return refs;
+        } catch (error) {
+            debugChannel.error('Error resolving PR diff refs', error as Error);
+            throw error;
+        }
+    }
+
+    async getFileContent(owner: string, repo: string, path: string, ref: string): Promise<string> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Fetching file content', { owner, repo, path, ref });
+            const response = await this.octokit!.rest.repos.getContent({
+                owner,
+                repo,
+                path,
+                ref
+            });
+
+            const file = response.data as any;
+            if (Array.isArray(file) || file.type !== 'file') {
+                return '';
+            }
+            if (file.content) {
+                return Buffer.from(file.content, 'base64').toString('utf8');
+            }
+
+            // Files over 1MB come back without inline content, so fetch the blob instead
+            const blob = await this.octokit!.rest.git.getBlob({
+                owner,
+                repo,
+                file_sha: file.sha
+            });
+            return Buffer.from(blob.data.content, blob.data.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8');
+        } catch (error: any) {
+            if (error.status === 404) {
+                // Added or removed files have no content on one side of the diff
+                debugChannel.info('File not present at ref', { path, ref });
+                return '';
+            }
+            debugChannel.error('Error fetching file content', error as Error);
+            throw error;
+        }
+    }
+
+    async checkMergeability(owner: string, repo: string, prNumber: number): Promise<MergeabilityResult> {
+        debugChannel.log('Checking PR mergeability', { owner, repo, prNumber });
+        let pr = await this.getPRDetails(owner, repo, prNumber);
+
+        // GitHub computes mergeability in the background; null means it is not ready yet
+        if (pr.state === 'open' && pr.mergeable === null) {
+            await new Promise(resolve => setTimeout(resolve, 1500));
+            pr = await this.getPRDetails(owner, repo, prNumber);
+        }
+
+        const result = describeMergeability(pr);
+        debugChannel.info('PR mergeability checked', { prNumber, ...result });
+        return result;
+    }
+
+    async mergePullRequest(owner: string, repo: string, prNumber: number, options: MergeOptions): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Merging pull request', { owner, repo, prNumber, method: options.method });
+            const mergeability = await this.checkMergeability(owner, repo, prNumber);
+            if (!mergeability.mergeable) {
+                throw new Error(`Cannot merge PR #${prNumber}: ${mergeability.reason}`);
+            }
+
+            const pr = await this.getPRDetails(owner, repo, prNumber);
+            const response = await this.octokit!.rest.pulls.merge({
+                owner,
+                repo,
+                pull_number: prNumber,
+                merge_method: options.method,
+                commit_title: options.commitTitle || undefined,
+                commit_message: options.commitMessage || undefined,
+                sha: pr.head.sha
+            });
+            debugChannel.info(`PR #${prNumber} merged: ${response.data.sha}`);
+
+            // Branches on forks belong to someone else, so only delete same-repo heads
+            if (options.deleteBranch && pr.head.repo?.full_name === `${owner}/${repo}`) {
+                try {
+                    await this.octokit!.rest.git.deleteRef({
+                        owner,
+                        repo,
+                        ref: `heads/${pr.head.ref}`
+                    });
+                    debugChannel.info(`Deleted branch after merge: ${pr.head.ref}`);
+                } catch (deleteError) {
+                    debugChannel.warn('Could not delete branch after merge', deleteError as Error);
+                }
+            }
+
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error merging pull request', error as Error);
+            throw error;
+        }
+    }
+
+    async setPullRequestState(owner: string, repo: string, prNumber: number, state: 'open' | 'closed'): Promise<any> {
+        if (!(await this.ensureAuthenticated())) {
+            throw new Error('GitHub authentication failed');
+        }
+
+        try {
+            debugChannel.log('Updating pull request state', { owner, repo, prNumber, state });
+            const response = await this.octokit!.rest.pulls.update({
+                owner,
+                repo,
+                pull_number: prNumber,
+                state
+            });
+
+            debugChannel.info(`PR #${prNumber} is now ${response.data.state}`);
+            return response.data;
+        } catch (error) {
+            debugChannel.error('Error updating pull request state', error as Error);
+            throw error;
+        }
+    }
+
     generateCopyableContent(pr: any, comments: any[]): string {
         let content = `# PR #${pr.number}: ${pr.title}\n\n`;
         content += `**Author:** ${pr.user.login}\n`;
@@ -708,19 +2677,21 @@ export class GitHubService {
         return content;
     }
 
-    async checkoutPR(workspacePath: string, prNumber: number): Promise<void> {
+    async checkoutPR(workspacePath: string, prNumber: number, token?: vscode.CancellationToken): Promise<void> {
         try {
             debugChannel.log('Checking out PR', { workspacePath, prNumber });
-            const repoInfo = await this.getRepositoryInfo(workspacePath);
+            // The dashboard shows the selected remote's repository, so same-repo branches are fetched from it
+            const repoInfo = await this.getSelectedRemote(workspacePath);
             if (!repoInfo) {
                 throw new Error('Could not determine repository information');
             }
 
-            if (!(await this.ensureAuthenticated())) {
+            const github = this.forHost(repoInfo.host);
+            if (!(await github.ensureAuthenticated())) {
                 throw new Error('GitHub authentication failed');
             }
 
-            const prResponse = await this.octokit!.rest.pulls.get({
+            const prResponse = await github.octokit!.rest.pulls.get({
                 owner: repoInfo.owner,
                 repo: repoInfo.repo,
                 pull_number: prNumber
@@ -728,43 +2699,33 @@ export class GitHubService {
 
             const pr = prResponse.data;
             const branchName = pr.head.ref;
+            assertValidBranchName(branchName);
             const remoteName = pr.head.repo?.full_name === `${repoInfo.owner}/${repoInfo.repo}` 
-                ? 'origin' 
+                ? repoInfo.name 
                 : 'pr-remote';
 
             if (remoteName === 'pr-remote') {
+                const cloneUrl = pr.head.repo?.clone_url;
+                if (!cloneUrl) {
+                    throw new Error('The PR head repository is no longer available');
+                }
                 try {
-                    execSync(`git remote add ${remoteName} ${pr.head.repo?.clone_url}`, {
-                        cwd: workspacePath,
-                        stdio: 'pipe'
-                    });
+                    await runGit(workspacePath, ['remote', 'add', remoteName, cloneUrl]);
                 } catch (error) {
-                    execSync(`git remote set-url ${remoteName} ${pr.head.repo?.clone_url}`, {
-                        cwd: workspacePath,
-                        stdio: 'pipe'
-                    });
+                    await runGit(workspacePath, ['remote', 'set-url', remoteName, cloneUrl]);
                 }
             }
 
-            execSync(`git fetch ${remoteName} ${branchName}`, {
-                cwd: workspacePath,
-                stdio: 'pipe'
-            });
+            await runGit(workspacePath, ['fetch', remoteName, branchName], { token });
 
             const localBranchName = `pr-${prNumber}-${branchName}`;
             debugChannel.log('Creating local branch', { localBranchName, remoteName, branchName });
             
             try {
-                execSync(`git checkout -b ${localBranchName} ${remoteName}/${branchName}`, {
-                    cwd: workspacePath,
-                    stdio: 'pipe'
-                });
+                await runGit(workspacePath, ['checkout', '-b', localBranchName, `${remoteName}/${branchName}`]);
                 debugChannel.info(`Created and checked out new branch: ${localBranchName}`);
             } catch (error) {
-                execSync(`git checkout ${localBranchName}`, {
-                    cwd: workspacePath,
-                    stdio: 'pipe'
-                });
+                await runGit(workspacePath, ['checkout', localBranchName]);
                 debugChannel.info(`Checked out existing branch: ${localBranchName}`);
             }
 
@@ -778,41 +2739,24 @@ export class GitHubService {
         try {
             debugChannel.log('Creating and checking out issue branch', { workspacePath, branchName });
             
+            // The name is typed by the user, so reject anything git would read as an option
+            assertValidBranchName(branchName);
+
             // Check if we're in a git repository
-            try {
-                execSync('git rev-parse --git-dir', { 
-                    cwd: workspacePath,
-                    stdio: 'pipe'
-                });
-            } catch (error) {
+            if (!(await gitSucceeds(workspacePath, ['rev-parse', '--git-dir']))) {
                 throw new Error('Not in a git repository');
             }
 
             // Check if branch already exists
-            let branchExists = false;
-            try {
-                execSync(`git show-ref --verify --quiet refs/heads/${branchName}`, {
-                    cwd: workspacePath,
-                    stdio: 'pipe'
-                });
-                branchExists = true;
-            } catch (error) {
-                // Branch doesn't exist, which is fine
-            }
+            const branchExists = await gitSucceeds(workspacePath, ['show-ref', '--verify', '--quiet', `refs/heads/${branchName}`]);
 
             if (branchExists) {
                 // Branch exists, just checkout
-                execSync(`git checkout ${branchName}`, {
-                    cwd: workspacePath,
-                    stdio: 'pipe'
-                });
+                await runGit(workspacePath, ['checkout', branchName]);
                 debugChannel.info(`Checked out existing branch: ${branchName}`);
             } else {
                 // Create and checkout new branch
-                execSync(`git checkout -b ${branchName}`, {
-                    cwd: workspacePath,
-                    stdio: 'pipe'
-                });
+                await runGit(workspacePath, ['checkout', '-b', branchName]);
                 debugChannel.info(`Created and checked out new branch: ${branchName}`);
             }
 
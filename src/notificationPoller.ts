@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import { GitHubService } from './githubService';
+import { devDashProvider } from './devDashProvider';
+import { debugChannel } from './debugChannel';
+import { RateLimitError } from './rateLimit';
+
+const LAST_SEEN_KEY = 'devDash.notifications.lastSeenAt';
+const MIN_INTERVAL_SECONDS = 60;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+/** More new notifications than this in one poll are summarised in a single message */
+const MAX_INDIVIDUAL_MESSAGES = 3;
+
+/**
+ * Polls the GitHub notifications API while the extension is active, independent of the
+ * dashboard panel, and raises VS Code notifications for review requests, mentions,
+ * comments on the user's PRs and failed CI runs.
+ */
+export class NotificationPoller {
+    /** Created when polling first starts, so a disabled poller never touches GitHub */
+    private githubService: GitHubService | undefined;
+    /** Bound to the host of the first workspace repository once polling starts */
+    private github: GitHubService | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    private running = false;
+    /** Bumped by start and stop; a poll from an earlier run must not schedule another */
+    private generation = 0;
+    private lastModified: string | undefined;
+    private failures = 0;
+
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    static isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('devDash').get<boolean>('notifications.enabled', false);
+    }
+
+    async start(): Promise<void> {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        const generation = ++this.generation;
+        debugChannel.info('Starting notification polling');
+
+        if (!this.githubService) {
+            this.githubService = new GitHubService(this.context.workspaceState);
+        }
+        this.github = this.githubService;
+
+        // Follow the host of the first workspace repository so enterprise users are polled on their server
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        if (folder) {
+            try {
+                const repoInfo = await this.githubService.getRepositoryInfo(folder.uri.fsPath);
+                this.github = this.githubService.forHost(repoInfo?.host);
+            } catch (error) {
+                debugChannel.warn('Could not resolve repository for notification polling', error as Error);
+            }
+        }
+
+        // Only notify about activity from now on, not the existing unread backlog
+        if (!this.context.globalState.get<string>(LAST_SEEN_KEY)) {
+            await this.context.globalState.update(LAST_SEEN_KEY, new Date().toISOString());
+        }
+        await this.poll(generation);
+    }
+
+    stop(): void {
+        if (!this.running) {
+            return;
+        }
+        debugChannel.info('Stopping notification polling');
+        this.running = false;
+        this.generation++;
+        this.lastModified = undefined;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    dispose(): void {
+        this.stop();
+        this.githubService?.dispose();
+    }
+
+    private async poll(generation: number): Promise<void> {
+        this.timer = undefined;
+        if (generation !== this.generation) {
+            return;
+        }
+
+        try {
+            const result = await this.github!.pollNotifications(this.lastModified);
+            if (generation !== this.generation) {
+                // Stopped, or stopped and restarted, while the request was in flight
+                return;
+            }
+            this.failures = 0;
+            this.lastModified = result.lastModified;
+            if (!result.notModified) {
+                await this.notify(result.notifications);
+            }
+            this.schedule(generation, Math.max(this.configuredInterval(), result.pollInterval) * 1000);
+        } catch (error) {
+            if (error instanceof RateLimitError) {
+                debugChannel.warn('Notification polling paused by rate limit', { until: new Date(error.until).toISOString() });
+                this.schedule(generation, Math.max(error.until - Date.now(), this.configuredInterval() * 1000));
+                return;
+            }
+            this.failures++;
+            debugChannel.error('Error polling notifications', error as Error);
+            this.schedule(generation, Math.min(this.configuredInterval() * 1000 * Math.pow(2, this.failures), MAX_BACKOFF_MS));
+        }
+    }
+
+    private schedule(generation: number, delay: number): void {
+        if (generation !== this.generation) {
+            return;
+        }
+        this.timer = setTimeout(() => this.poll(generation), delay);
+    }
+
+    private configuredInterval(): number {
+        const seconds = vscode.workspace.getConfiguration('devDash').get<number>('notifications.pollIntervalSeconds', MIN_INTERVAL_SECONDS);
+        return Math.max(seconds, MIN_INTERVAL_SECONDS);
+    }
+
+    private async notify(notifications: any[]): Promise<void> {
+        const lastSeenAt = this.context.globalState.get<string>(LAST_SEEN_KEY) || '';
+        const fresh = notifications
+            .filter(notification => notification.updated_at > lastSeenAt)
+            .filter(notification => this.describe(notification) !== null)
+            .sort((a, b) => a.updated_at.localeCompare(b.updated_at));
+        if (fresh.length === 0) {
+            return;
+        }
+
+        await this.context.globalState.update(LAST_SEEN_KEY, fresh[fresh.length - 1].updated_at);
+        debugChannel.info(`Raising ${fresh.length} GitHub notifications`);
+
+        if (fresh.length > MAX_INDIVIDUAL_MESSAGES) {
+            const choice = await vscode.window.showInformationMessage(
+                `${fresh.length} new GitHub notifications`,
+                'Open on GitHub'
+            );
+            if (choice === 'Open on GitHub') {
+                vscode.env.openExternal(vscode.Uri.parse(`https://${this.github!.getHost()}/notifications`));
+            }
+            return;
+        }
+
+        for (const notification of fresh) {
+            // Not awaited: each message stays up until the user acts on it or dismisses it
+            this.showNotification(notification);
+        }
+    }
+
+    /** The message to show, or null for notification reasons the user did not ask about */
+    private describe(notification: any): string | null {
+        const repo = notification.repository?.full_name;
+        const subject = notification.subject;
+        const isPR = subject.type === 'PullRequest';
+        switch (notification.reason) {
+            case 'review_requested':
+                return `Review requested on ${repo}: ${subject.title}`;
+            case 'mention':
+            case 'team_mention':
+                return `You were mentioned in ${repo}: ${subject.title}`;
+            case 'author':
+                return isPR ? `New activity on your PR in ${repo}: ${subject.title}` : null;
+            case 'comment':
+                return isPR ? `New activity on a thread you commented on in ${repo}: ${subject.title}` : null;
+            case 'ci_activity':
+                return /fail/i.test(subject.title) ? `CI failed in ${repo}: ${subject.title}` : null;
+            default:
+                return null;
+        }
+    }
+
+    private async showNotification(notification: any): Promise<void> {
+        const message = this.describe(notification)!;
+        const canOpenDetails = ['Issue', 'PullRequest'].includes(notification.subject.type) && !!notification.subject.url;
+        const actions = canOpenDetails ? ['Open', 'Open on GitHub'] : ['Open on GitHub'];
+
+        const choice = await vscode.window.showInformationMessage(message, ...actions);
+        try {
+            if (choice === 'Open') {
+                const item = await this.github!.getNotificationSubject(notification);
+                if (item) {
+                    await devDashProvider.showItemDetails(this.context.extensionUri, this.context.workspaceState, item);
+                }
+            } else if (choice === 'Open on GitHub') {
+                const item = canOpenDetails ? await this.github!.getNotificationSubject(notification) : null;
+                const url = item?.html_url || `${notification.repository.html_url}/actions`;
+                vscode.env.openExternal(vscode.Uri.parse(url));
+            }
+        } catch (error) {
+            debugChannel.error('Error opening notification', error as Error);
+            vscode.window.showErrorMessage(`Error opening notification: ${error}`);
+        }
+    }
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { GitHubService } from './githubService';
+import { debugChannel } from './debugChannel';
+
+export interface PRFileRef {
+    owner: string;
+    repo: string;
+    ref: string;
+    host?: string;
+}
+
+export class PRContentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'devdash-pr';
+
+    private githubService: GitHubService | undefined;
+
+    public static createUri(path: string, fileRef: PRFileRef): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: PRContentProvider.scheme,
+            path: '/' + path,
+            query: JSON.stringify(fileRef)
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        try {
+            const fileRef: PRFileRef = JSON.parse(uri.query);
+            const path = uri.path.replace(/^\//, '');
+            debugChannel.log('Providing PR file content', { path, ref: fileRef.ref });
+
+            // Created on first use so registering the provider does not trigger a sign-in prompt
+            if (!this.githubService) {
+                this.githubService = new GitHubService();
+            }
+            return await this.githubService.forHost(fileRef.host).getFileContent(fileRef.owner, fileRef.repo, path, fileRef.ref);
+        } catch (error) {
+            debugChannel.error('Error providing PR file content', error as Error);
+            vscode.window.showErrorMessage(`Error loading file from GitHub: ${error}`);
+            return '';
+        }
+    }
+
+    dispose(): void {
+        this.githubService?.dispose();
+    }
+}
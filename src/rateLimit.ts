@@ -0,0 +1,166 @@
+import { Octokit } from '@octokit/rest';
+import * as vscode from 'vscode';
+import { debugChannel } from './debugChannel';
+
+const MAX_RETRIES = 3;
+/** Longer waits are reported as "rate limited until" instead of holding the request open */
+const MAX_RETRY_WAIT_MS = 60000;
+const DEFAULT_SECONDARY_WAIT_MS = 5000;
+
+export interface RateLimitState {
+    scope: string;
+    resource: string;
+    limit: number;
+    remaining: number;
+    /** Epoch milliseconds when the quota resets */
+    resetAt: number;
+    /** Set while requests are refused, until the given epoch milliseconds */
+    limitedUntil?: number;
+}
+
+export class RateLimitError extends Error {
+    constructor(public readonly until: number, public readonly secondary: boolean = false) {
+        super(`GitHub ${secondary ? 'secondary ' : ''}rate limit reached, requests are paused until ${new Date(until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+        this.name = 'RateLimitError';
+    }
+}
+
+/**
+ * Reads x-ratelimit-* headers from every response, retries secondary rate limits with backoff
+ * and refuses requests up front while a primary limit is exhausted.
+ */
+export class RateLimitTracker {
+    private static instance: RateLimitTracker | undefined;
+    private states = new Map<string, RateLimitState>();
+    private readonly _onDidChange = new vscode.EventEmitter<RateLimitState>();
+    public readonly onDidChange = this._onDidChange.event;
+    /** Fires for every refused request, so callers that swallow their errors still surface the limit */
+    private readonly _onDidLimit = new vscode.EventEmitter<RateLimitError>();
+    public readonly onDidLimit = this._onDidLimit.event;
+
+    private constructor() {}
+
+    public static getInstance(): RateLimitTracker {
+        if (!RateLimitTracker.instance) {
+            RateLimitTracker.instance = new RateLimitTracker();
+        }
+        return RateLimitTracker.instance;
+    }
+
+    attach(octokit: Octokit, scope: string): void {
+        octokit.hook.wrap('request', async (request, options) => {
+            const resource = this.resourceFor(options.url);
+            const key = `${scope} ${resource}`;
+
+            const known = this.states.get(key);
+            if (known?.limitedUntil && known.limitedUntil > Date.now()) {
+                throw this.refuse(new RateLimitError(known.limitedUntil));
+            }
+
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    const response = await request(options);
+                    this.update(key, scope, response.headers);
+                    return response;
+                } catch (error: any) {
+                    const headers = error?.response?.headers || {};
+                    this.update(key, scope, headers);
+
+                    const wait = this.rateLimitWait(error, headers, attempt);
+                    if (wait === null) {
+                        throw error;
+                    }
+
+                    const secondary = headers['x-ratelimit-remaining'] !== '0';
+                    if (!secondary || wait > MAX_RETRY_WAIT_MS || attempt >= MAX_RETRIES) {
+                        const until = Date.now() + wait;
+                        this.markLimited(key, until);
+                        throw this.refuse(new RateLimitError(until, secondary));
+                    }
+
+                    debugChannel.warn(`Secondary rate limit hit, retrying in ${Math.round(wait / 1000)}s`, { url: options.url, attempt });
+                    await new Promise(resolve => setTimeout(resolve, wait));
+                }
+            }
+        });
+    }
+
+    getState(scope: string, resource: string = 'core'): RateLimitState | undefined {
+        return this.states.get(`${scope} ${resource}`);
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+        this._onDidLimit.dispose();
+    }
+
+    private refuse(error: RateLimitError): RateLimitError {
+        this._onDidLimit.fire(error);
+        return error;
+    }
+
+    private resourceFor(url: string): string {
+        if (url.startsWith('/search/')) {
+            return 'search';
+        }
+        if (url === '/graphql') {
+            return 'graphql';
+        }
+        return 'core';
+    }
+
+    /** Milliseconds to wait before retrying, or null when the error is not a rate limit */
+    private rateLimitWait(error: any, headers: Record<string, string>, attempt: number): number | null {
+        const status = error?.status;
+        if (status !== 403 && status !== 429) {
+            return null;
+        }
+
+        const retryAfter = parseInt(headers['retry-after'], 10);
+        if (!isNaN(retryAfter)) {
+            return retryAfter * 1000;
+        }
+
+        if (headers['x-ratelimit-remaining'] === '0') {
+            const reset = parseInt(headers['x-ratelimit-reset'], 10);
+            return isNaN(reset) ? MAX_RETRY_WAIT_MS : Math.max(reset * 1000 - Date.now(), 1000);
+        }
+
+        // Secondary limits and abuse detection answer 403 with an explanation but no quota headers
+        const message = `${error?.message || ''} ${JSON.stringify(error?.response?.data || '')}`.toLowerCase();
+        if (message.includes('secondary rate limit') || message.includes('abuse')) {
+            return DEFAULT_SECONDARY_WAIT_MS * Math.pow(2, attempt);
+        }
+        return null;
+    }
+
+    private update(key: string, scope: string, headers: Record<string, any>): void {
+        const limit = parseInt(headers['x-ratelimit-limit'], 10);
+        const remaining = parseInt(headers['x-ratelimit-remaining'], 10);
+        const reset = parseInt(headers['x-ratelimit-reset'], 10);
+        if (isNaN(limit) || isNaN(remaining) || isNaN(reset)) {
+            return;
+        }
+
+        const state: RateLimitState = {
+            scope,
+            resource: headers['x-ratelimit-resource'] || key.split(' ').pop() || 'core',
+            limit,
+            remaining,
+            resetAt: reset * 1000
+        };
+        this.states.set(key, state);
+        this._onDidChange.fire(state);
+    }
+
+    private markLimited(key: string, until: number): void {
+        const state = this.states.get(key);
+        const [scope, resource] = key.split(' ');
+        const limited: RateLimitState = state
+            ? { ...state, limitedUntil: until }
+            : { scope, resource, limit: 0, remaining: 0, resetAt: until, limitedUntil: until };
+        this.states.set(key, limited);
+        debugChannel.warn('GitHub rate limit reached', { key, until: new Date(until).toISOString() });
+        this._onDidChange.fire(limited);
+    }
+}
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type RemoteProtocol = 'https' | 'http' | 'ssh' | 'git';
+
+export interface ParsedRemoteUrl {
+    protocol: RemoteProtocol;
+    /** Lowercased hostname, with SSH config aliases resolved when known */
+    host: string;
+    /** The host as written in the URL, which differs from host for SSH aliases */
+    rawHost: string;
+    port?: number;
+    owner: string;
+    repo: string;
+}
+
+/**
+ * Parses the remote URL forms git accepts for GitHub repositories:
+ *   https://[user@]host[:port]/owner/repo[.git]
+ *   ssh://[user@]host[:port]/owner/repo[.git]
+ *   git://host/owner/repo[.git]
+ *   [user@]host:owner/repo[.git]   (scp-like, where host may be an SSH config alias)
+ * Returns null for local paths and URLs that do not end in exactly owner/repo.
+ */
+export function parseRemoteUrl(url: string, sshAliases: Record<string, string> = {}): ParsedRemoteUrl | null {
+    const trimmed = url.trim();
+    if (!trimmed) {
+        return null;
+    }
+
+    let protocol: RemoteProtocol;
+    let rawHost: string;
+    let port: number | undefined;
+    let repoPath: string;
+
+    const urlMatch = trimmed.match(/^(https?|ssh|git(?:\+ssh)?|ssh\+git):\/\/(?:[^@/]+@)?(\[[^\]]+\]|[^:/]+)(?::(\d*))?\/(.+)$/i);
+    if (urlMatch) {
+        const scheme = urlMatch[1].toLowerCase();
+        protocol = scheme === 'https' || scheme === 'http' || scheme === 'git'
+            ? scheme
+            : 'ssh';
+        rawHost = urlMatch[2];
+        port = urlMatch[3] ? parseInt(urlMatch[3], 10) : undefined;
+        repoPath = urlMatch[4];
+    } else {
+        // scp-like syntax has no scheme and a colon before the path; a slash before the colon makes it a local path,
+        // and so does a Windows drive letter
+        if (/^[a-zA-Z]:[\\/]/.test(trimmed)) {
+            return null;
+        }
+        const scpMatch = trimmed.match(/^(?:[^@/:]+@)?([^/:]+):(?!\/\/)(.+)$/);
+        if (!scpMatch) {
+            return null;
+        }
+        protocol = 'ssh';
+        rawHost = scpMatch[1];
+        repoPath = scpMatch[2];
+    }
+
+    const segments = repoPath
+        .replace(/\/+$/, '')
+        .replace(/\.git$/i, '')
+        .split('/')
+        .filter(segment => segment.length > 0);
+    if (segments.length !== 2) {
+        return null;
+    }
+
+    const aliasTarget = protocol === 'ssh' ? sshAliases[rawHost.toLowerCase()] : undefined;
+    return {
+        protocol,
+        host: (aliasTarget || rawHost).toLowerCase(),
+        rawHost,
+        port,
+        owner: segments[0],
+        repo: segments[1]
+    };
+}
+
+/**
+ * Reads Host to HostName mappings from ~/.ssh/config so aliases like
+ * "work-github" resolve to the server they point at. Wildcard patterns are skipped.
+ */
+export function readSshHostAliases(configPath: string = path.join(os.homedir(), '.ssh', 'config')): Record<string, string> {
+    const aliases: Record<string, string> = {};
+    let content: string;
+    try {
+        content = fs.readFileSync(configPath, 'utf8');
+    } catch (error) {
+        return aliases;
+    }
+
+    let currentHosts: string[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const match = line.match(/^(\w+)\s*(?:=\s*|\s)\s*(.+)$/);
+        if (!match) {
+            continue;
+        }
+        const keyword = match[1].toLowerCase();
+        const value = match[2].trim();
+        if (keyword === 'host') {
+            currentHosts = value.split(/\s+/).filter(host => !/[*?!]/.test(host)).map(host => host.toLowerCase());
+        } else if (keyword === 'match') {
+            currentHosts = [];
+        } else if (keyword === 'hostname') {
+            for (const host of currentHosts) {
+                // The first value wins in ssh_config
+                if (!aliases[host]) {
+                    aliases[host] = value.toLowerCase();
+                }
+            }
+        }
+    }
+    return aliases;
+}
@@ -0,0 +1,244 @@
+import { Octokit } from '@octokit/rest';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { debugChannel } from './debugChannel';
+
+const CACHE_FILE = 'response-cache.json';
+const MAX_ENTRIES = 400;
+/** Size of the cache file; the newest entries that fit are persisted, the rest live in memory only */
+const MAX_FILE_BYTES = 4 * 1024 * 1024;
+const SAVE_DELAY_MS = 2000;
+
+interface CacheEntry {
+    etag?: string;
+    lastModified?: string;
+    url: string;
+    data: any;
+    link?: string;
+    storedAt: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    /** 304 responses, which GitHub does not count against the rate limit */
+    notModified: number;
+    misses: number;
+    cacheOnlyHits: number;
+}
+
+export class CacheMissError extends Error {
+    constructor(public readonly key: string) {
+        super(`No cached response for ${key}`);
+        this.name = 'CacheMissError';
+    }
+}
+
+/**
+ * Stores GET responses per account, endpoint and parameters, and revalidates them with
+ * If-None-Match / If-Modified-Since so unchanged data costs no rate limit.
+ */
+export class ResponseCache {
+    private static instance: ResponseCache | undefined;
+    private entries = new Map<string, CacheEntry>();
+    private stats = { notModified: 0, misses: 0, cacheOnlyHits: 0 };
+    private saveTimer: NodeJS.Timeout | undefined;
+    private saving: Promise<void> = Promise.resolve();
+    private readonly cacheOnly = new AsyncLocalStorage<boolean>();
+
+    private constructor(private readonly storagePath?: string) {
+        this.load();
+    }
+
+    public static initialize(globalStorageUri: vscode.Uri): ResponseCache {
+        ResponseCache.instance = new ResponseCache(globalStorageUri.fsPath);
+        return ResponseCache.instance;
+    }
+
+    public static getInstance(): ResponseCache {
+        if (!ResponseCache.instance) {
+            // Without extension storage (e.g. before activation) the cache lives in memory only
+            ResponseCache.instance = new ResponseCache();
+        }
+        return ResponseCache.instance;
+    }
+
+    /** Adds caching to a client; scope separates hosts and accounts that see different data */
+    attach(octokit: Octokit, scope: string): void {
+        octokit.hook.wrap('request', async (request, options) => {
+            const callerHeaders = options.headers as Record<string, string>;
+            // Callers sending their own conditional headers (e.g. notification polling) handle 304s themselves
+            if (options.method !== 'GET' || callerHeaders['if-modified-since'] || callerHeaders['if-none-match']) {
+                return request(options);
+            }
+
+            const endpoint = octokit.request.endpoint(options);
+            // The media type changes the body (e.g. body_html vs body), so it is part of the key
+            const key = `${scope} ${endpoint.headers.accept || ''} ${endpoint.url}`;
+            const cached = this.entries.get(key);
+
+            if (this.cacheOnly.getStore()) {
+                if (!cached) {
+                    throw new CacheMissError(key);
+                }
+                this.stats.cacheOnlyHits++;
+                return this.toResponse(cached);
+            }
+
+            // Inner hooks are bound to this options object, so headers must be set on it rather than a copy
+            if (cached?.etag) {
+                callerHeaders['if-none-match'] = cached.etag;
+            } else if (cached?.lastModified) {
+                callerHeaders['if-modified-since'] = cached.lastModified;
+            }
+
+            try {
+                const response = await request(options);
+                this.stats.misses++;
+                this.store(key, response);
+                return response;
+            } catch (error: any) {
+                if (error?.status === 304 && cached) {
+                    this.stats.notModified++;
+                    cached.storedAt = Date.now();
+                    // Re-insert so revalidated entries are the last to be evicted
+                    this.entries.delete(key);
+                    this.entries.set(key, cached);
+                    this.scheduleSave();
+                    return this.toResponse(cached);
+                }
+                throw error;
+            }
+        });
+    }
+
+    /**
+     * Runs fn with every GET answered from the cache and no network access. Rejects with
+     * CacheMissError when any request has not been seen before.
+     */
+    readOnly<T>(fn: () => Promise<T>): Promise<T> {
+        return this.cacheOnly.run(true, fn);
+    }
+
+    getStats(): CacheStats {
+        return { entries: this.entries.size, ...this.stats };
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.scheduleSave();
+    }
+
+    dispose(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+            this.save();
+        }
+    }
+
+    private store(key: string, response: any): void {
+        const etag = response.headers?.etag;
+        const lastModified = response.headers?.['last-modified'];
+        // Only JSON bodies that GitHub can revalidate are worth keeping
+        if ((!etag && !lastModified) || typeof response.data !== 'object' || response.data === null) {
+            return;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, {
+            etag,
+            lastModified,
+            url: response.url,
+            data: response.data,
+            link: response.headers.link,
+            storedAt: Date.now()
+        });
+
+        // Map iteration follows insertion order, so the first keys are the least recently stored
+        while (this.entries.size > MAX_ENTRIES) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+        this.scheduleSave();
+    }
+
+    private toResponse(entry: CacheEntry): any {
+        const headers: Record<string, string> = {};
+        if (entry.etag) {
+            headers.etag = entry.etag;
+        }
+        if (entry.lastModified) {
+            headers['last-modified'] = entry.lastModified;
+        }
+        if (entry.link) {
+            headers.link = entry.link;
+        }
+        return { status: 200, url: entry.url, headers, data: entry.data };
+    }
+
+    private get filePath(): string | undefined {
+        return this.storagePath ? path.join(this.storagePath, CACHE_FILE) : undefined;
+    }
+
+    private load(): void {
+        const filePath = this.filePath;
+        if (!filePath || !fs.existsSync(filePath)) {
+            return;
+        }
+        try {
+            const stored: Record<string, CacheEntry> = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            const sorted = Object.entries(stored).sort((a, b) => a[1].storedAt - b[1].storedAt);
+            for (const [key, entry] of sorted) {
+                this.entries.set(key, entry);
+            }
+            debugChannel.info(`Loaded ${this.entries.size} cached GitHub responses`);
+        } catch (error) {
+            debugChannel.warn('Discarding unreadable response cache', error as Error);
+        }
+    }
+
+    private scheduleSave(): void {
+        if (!this.filePath || this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save();
+        }, SAVE_DELAY_MS);
+    }
+
+    /** Writes are chained so a slow write never races the next one */
+    private save(): Promise<void> {
+        this.saving = this.saving.then(() => this.write());
+        return this.saving;
+    }
+
+    private async write(): Promise<void> {
+        const filePath = this.filePath;
+        if (!filePath) {
+            return;
+        }
+        try {
+            // Newest first, so the entries that miss the budget are the ones least likely to be asked for again
+            const members: string[] = [];
+            let bytes = 2;
+            for (const [key, entry] of [...this.entries].reverse()) {
+                const member = `${JSON.stringify(key)}:${JSON.stringify(entry)}`;
+                const size = Buffer.byteLength(member) + 1;
+                if (bytes + size > MAX_FILE_BYTES) {
+                    continue;
+                }
+                members.push(member);
+                bytes += size;
+            }
+
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, `{${members.join(',')}}`);
+            debugChannel.log('Response cache saved', { ...this.getStats(), persisted: members.length, bytes });
+        } catch (error) {
+            debugChannel.error('Error saving response cache', error as Error);
+        }
+    }
+}
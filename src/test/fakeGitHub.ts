@@ -0,0 +1,32 @@
+import { Octokit } from '@octokit/rest';
+
+export interface FakeRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+}
+
+export interface FakeResponse {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: any;
+}
+
+/** An Octokit client whose requests are answered by respond instead of the network, and recorded in order */
+export function createFakeGitHub(respond: (request: FakeRequest) => FakeResponse): { octokit: Octokit; requests: FakeRequest[] } {
+    const requests: FakeRequest[] = [];
+    const fetch = async (url: string, init: { method: string; headers: Record<string, string> }) => {
+        const request = { method: init.method, url, headers: { ...init.headers } };
+        requests.push(request);
+        const { status = 200, headers = {}, body = {} } = respond(request);
+        // 304 responses carry no body to parse
+        if (status === 304) {
+            return new Response(null, { status, headers });
+        }
+        return new Response(JSON.stringify(body), {
+            status,
+            headers: { 'content-type': 'application/json; charset=utf-8', ...headers }
+        });
+    };
+    return { octokit: new Octokit({ request: { fetch } }), requests };
+}
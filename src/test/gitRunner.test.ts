@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { assertValidBranchName } from '../gitRunner';
+
+suite('assertValidBranchName', () => {
+    test('accepts ordinary branch names', () => {
+        for (const name of ['main', 'feature/login', 'pr-12-fix-typo', 'release-1.2', 'user/topic_branch']) {
+            assert.doesNotThrow(() => assertValidBranchName(name), name);
+        }
+    });
+
+    test('rejects names git would read as options', () => {
+        assert.throws(() => assertValidBranchName('-f'), /Invalid branch name/);
+        assert.throws(() => assertValidBranchName('--upload-pack=evil'), /Invalid branch name/);
+    });
+
+    test('rejects empty names and whitespace', () => {
+        assert.throws(() => assertValidBranchName(''), /Invalid branch name/);
+        assert.throws(() => assertValidBranchName('my branch'), /Invalid branch name/);
+        assert.throws(() => assertValidBranchName('tab\tbranch'), /Invalid branch name/);
+    });
+
+    test('rejects characters and sequences git refuses in ref names', () => {
+        for (const name of ['a~1', 'a^', 'a:b', 'a?', 'a*', 'a[b', 'a\\b', 'a..b', 'a@{1}', 'a\x7f']) {
+            assert.throws(() => assertValidBranchName(name), /Invalid branch name/, name);
+        }
+    });
+
+    test('rejects names ending in .lock, a slash or a dot', () => {
+        assert.throws(() => assertValidBranchName('topic.lock'), /Invalid branch name/);
+        assert.throws(() => assertValidBranchName('topic/'), /Invalid branch name/);
+        assert.throws(() => assertValidBranchName('topic.'), /Invalid branch name/);
+    });
+});
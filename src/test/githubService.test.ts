@@ -0,0 +1,178 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describeMergeability, GitHubService, SHARED_VIEWS_FILE } from '../githubService';
+
+suite('shared views', () => {
+    let workspacePath: string;
+    let service: GitHubService;
+
+    setup(() => {
+        workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'devdash-views-'));
+        service = new GitHubService();
+    });
+
+    teardown(() => {
+        service.dispose();
+        fs.rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    const readFile = () => fs.readFileSync(path.join(workspacePath, SHARED_VIEWS_FILE), 'utf8');
+    const writeFile = (content: string) => {
+        fs.mkdirSync(path.join(workspacePath, '.vscode'), { recursive: true });
+        fs.writeFileSync(path.join(workspacePath, SHARED_VIEWS_FILE), content);
+    };
+
+    test('creates the file for the first view', async () => {
+        await service.saveSharedView(workspacePath, { name: 'Bugs', tab: 'issues', query: 'label:bug', status: 'open' });
+
+        assert.deepStrictEqual(await service.getSharedViews(workspacePath), [
+            { name: 'Bugs', tab: 'issues', query: 'label:bug', status: 'open', sort: undefined, groupBy: undefined, shared: true }
+        ]);
+    });
+
+    test('replaces a view by name and keeps comments, other settings and unknown fields', async () => {
+        writeFile([
+            '{',
+            '    // Reviewed by the team',
+            '    "theme": "compact",',
+            '    "views": [',
+            '        { "name": "Bugs", "tab": "issues", "query": "label:bug", "status": "open", "color": "red" },',
+            '        { "name": "Mine", "tab": "prs", "query": "author:@me", "status": "open" },',
+            '    ]',
+            '}'
+        ].join('\n'));
+
+        await service.saveSharedView(workspacePath, { name: 'Bugs', tab: 'issues', query: 'label:bug -label:wontfix', status: 'all', shared: true });
+
+        const content = readFile();
+        assert.ok(content.includes('// Reviewed by the team'));
+        assert.ok(content.includes('"theme": "compact"'));
+        assert.ok(content.includes('"color": "red"'));
+        assert.ok(!content.includes('"shared"'));
+        const views = await service.getSharedViews(workspacePath);
+        assert.deepStrictEqual(views.map(view => [view.name, view.query, view.status]), [
+            ['Bugs', 'label:bug -label:wontfix', 'all'],
+            ['Mine', 'author:@me', 'open']
+        ]);
+    });
+
+    test('appends views with new names', async () => {
+        writeFile('{ "views": [{ "name": "Bugs", "tab": "issues", "query": "", "status": "open" }] }');
+
+        await service.saveSharedView(workspacePath, { name: 'Mine', tab: 'prs', query: 'author:@me', status: 'open' });
+
+        assert.deepStrictEqual((await service.getSharedViews(workspacePath)).map(view => view.name), ['Bugs', 'Mine']);
+    });
+
+    test('deletes every view with the name and leaves the rest of the file', async () => {
+        writeFile([
+            '{',
+            '    // Reviewed by the team',
+            '    "views": [',
+            '        { "name": "Bugs", "tab": "issues", "query": "", "status": "open" },',
+            '        { "name": "Mine", "tab": "prs", "query": "", "status": "open" },',
+            '        { "name": "Bugs", "tab": "prs", "query": "", "status": "open" }',
+            '    ]',
+            '}'
+        ].join('\n'));
+
+        await service.deleteSharedView(workspacePath, 'Bugs');
+
+        assert.ok(readFile().includes('// Reviewed by the team'));
+        assert.deepStrictEqual((await service.getSharedViews(workspacePath)).map(view => view.name), ['Mine']);
+    });
+
+    test('leaves the file alone when deleting a view it does not contain', async () => {
+        await service.deleteSharedView(workspacePath, 'Bugs');
+        assert.ok(!fs.existsSync(path.join(workspacePath, SHARED_VIEWS_FILE)));
+
+        const content = '{ "views": [] } // untouched';
+        writeFile(content);
+        await service.deleteSharedView(workspacePath, 'Bugs');
+        assert.strictEqual(readFile(), content);
+    });
+
+    test('treats a malformed file as having no shared views and refuses to edit it', async () => {
+        writeFile('{ "views": [ ');
+
+        assert.deepStrictEqual(await service.getSharedViews(workspacePath), []);
+        await assert.rejects(service.saveSharedView(workspacePath, { name: 'Bugs', tab: 'issues', query: '', status: 'open' }), /not valid JSON/);
+    });
+});
+
+suite('describeMergeability', () => {
+    const openPR = { state: 'open', merged: false, draft: false, mergeable: true, mergeable_state: 'clean' };
+
+    test('allows clean, unstable and has_hooks pull requests', () => {
+        for (const state of ['clean', 'unstable', 'has_hooks']) {
+            assert.deepStrictEqual(describeMergeability({ ...openPR, mergeable_state: state }), { mergeable: true, mergeableState: state });
+        }
+    });
+
+    test('explains merged, closed and draft pull requests', () => {
+        assert.match(describeMergeability({ ...openPR, state: 'closed', merged: true }).reason!, /already been merged/);
+        assert.match(describeMergeability({ ...openPR, state: 'closed' }).reason!, /is closed/);
+        assert.match(describeMergeability({ ...openPR, draft: true }).reason!, /still a draft/);
+    });
+
+    test('reports conflicts, branch protection and out of date branches', () => {
+        assert.match(describeMergeability({ ...openPR, mergeable: false, mergeable_state: 'dirty' }).reason!, /conflicts/);
+        assert.match(describeMergeability({ ...openPR, mergeable_state: 'blocked' }).reason!, /branch protection/);
+        assert.match(describeMergeability({ ...openPR, mergeable_state: 'behind' }).reason!, /out of date/);
+    });
+
+    test('asks to try again while GitHub is still computing', () => {
+        for (const state of ['unknown', undefined, null]) {
+            const result = describeMergeability({ ...openPR, mergeable: null, mergeable_state: state });
+            assert.strictEqual(result.mergeable, false);
+            assert.match(result.reason!, /still computing/);
+        }
+    });
+});
+
+suite('getPRBranchStates', () => {
+    let workspacePath: string;
+    let service: GitHubService;
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: workspacePath, encoding: 'utf8' }).trim();
+
+    setup(() => {
+        workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'devdash-branches-'));
+        service = new GitHubService();
+        git('init', '-q', '-b', 'main');
+        git('commit', '-q', '--allow-empty', '-m', 'first');
+        git('branch', 'pr-7-feature');
+        git('branch', 'topic');
+        git('commit', '-q', '--allow-empty', '-m', 'second');
+    });
+
+    teardown(() => {
+        service.dispose();
+        fs.rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    test('finds checked out PR branches and how far they are from the PR head', async () => {
+        const head = git('rev-parse', 'HEAD');
+
+        const states = await service.getPRBranchStates(workspacePath, [
+            { number: 7, headRef: 'feature', headSha: head, sameRepository: true },
+            { number: 8, headRef: 'main', headSha: head, sameRepository: true },
+            { number: 9, headRef: 'topic', headSha: '0'.repeat(40), sameRepository: true }
+        ]);
+
+        assert.deepStrictEqual(states[7], { localBranch: 'pr-7-feature', isCurrent: false, onRemote: false, headAvailable: true, ahead: 0, behind: 1 });
+        assert.deepStrictEqual(states[8], { localBranch: 'main', isCurrent: true, onRemote: false, headAvailable: true, ahead: 0, behind: 0 });
+        assert.deepStrictEqual(states[9], { localBranch: 'topic', isCurrent: false, onRemote: false, headAvailable: false, ahead: 0, behind: 0 });
+    });
+
+    test('only matches the bare head name for branches of the same repository', async () => {
+        const states = await service.getPRBranchStates(workspacePath, [
+            { number: 10, headRef: 'topic', headSha: git('rev-parse', 'topic'), sameRepository: false }
+        ]);
+
+        assert.strictEqual(states[10].localBranch, undefined);
+        assert.strictEqual(states[10].headAvailable, true);
+    });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { RateLimitError, RateLimitTracker } from '../rateLimit';
+import { createFakeGitHub } from './fakeGitHub';
+
+// RateLimitTracker is a singleton, so every test tracks its requests under its own scope
+suite('RateLimitTracker', () => {
+    const tracker = RateLimitTracker.getInstance();
+
+    test('records the quota reported by each response', async () => {
+        const { octokit } = createFakeGitHub(() => ({
+            headers: { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4321', 'x-ratelimit-reset': '1900000000', 'x-ratelimit-resource': 'core' }
+        }));
+        tracker.attach(octokit, 'quota');
+
+        await octokit.request('GET /user');
+
+        const state = tracker.getState('quota');
+        assert.strictEqual(state?.limit, 5000);
+        assert.strictEqual(state?.remaining, 4321);
+        assert.strictEqual(state?.resetAt, 1900000000 * 1000);
+        assert.strictEqual(state?.limitedUntil, undefined);
+    });
+
+    test('refuses requests until an exhausted quota resets', async () => {
+        const reset = Math.floor(Date.now() / 1000) + 3600;
+        const { octokit, requests } = createFakeGitHub(() => ({
+            status: 403,
+            headers: { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) },
+            body: { message: 'API rate limit exceeded' }
+        }));
+        tracker.attach(octokit, 'exhausted');
+        const limits: RateLimitError[] = [];
+        const listener = tracker.onDidLimit(error => limits.push(error));
+
+        try {
+            await assert.rejects(octokit.request('GET /user'), (error: any) => {
+                assert.ok(error instanceof RateLimitError);
+                assert.strictEqual(error.secondary, false);
+                assert.ok(Math.abs(error.until - reset * 1000) < 5000);
+                return true;
+            });
+            assert.ok(tracker.getState('exhausted')?.limitedUntil);
+
+            // Refused up front, without another request reaching GitHub
+            await assert.rejects(octokit.request('GET /user'), RateLimitError);
+            assert.strictEqual(requests.length, 1);
+            assert.strictEqual(limits.length, 2);
+        } finally {
+            listener.dispose();
+        }
+    });
+
+    test('retries secondary rate limits that ask for a short wait', async () => {
+        let attempts = 0;
+        const { octokit, requests } = createFakeGitHub(() => ++attempts === 1
+            ? { status: 403, headers: { 'retry-after': '0' }, body: { message: 'You have exceeded a secondary rate limit.' } }
+            : { body: { login: 'octo' } });
+        tracker.attach(octokit, 'secondary-retry');
+
+        const response = await octokit.request('GET /user');
+
+        assert.strictEqual(requests.length, 2);
+        assert.deepStrictEqual(response.data, { login: 'octo' });
+        assert.strictEqual(tracker.getState('secondary-retry')?.limitedUntil, undefined);
+    });
+
+    test('reports long secondary waits instead of retrying', async () => {
+        const { octokit, requests } = createFakeGitHub(() => ({
+            status: 429,
+            headers: { 'retry-after': '120' },
+            body: { message: 'You have exceeded a secondary rate limit.' }
+        }));
+        tracker.attach(octokit, 'secondary-long');
+
+        const started = Date.now();
+        await assert.rejects(octokit.request('GET /user'), (error: any) => {
+            assert.ok(error instanceof RateLimitError);
+            assert.strictEqual(error.secondary, true);
+            assert.ok(error.until >= started + 120000);
+            return true;
+        });
+        assert.strictEqual(requests.length, 1);
+        assert.ok((tracker.getState('secondary-long')?.limitedUntil || 0) >= started + 120000);
+    });
+
+    test('passes other 403 errors through unchanged', async () => {
+        const { octokit, requests } = createFakeGitHub(() => ({ status: 403, body: { message: 'Resource not accessible by integration' } }));
+        tracker.attach(octokit, 'forbidden');
+
+        await assert.rejects(octokit.request('GET /user'), (error: any) => {
+            assert.ok(!(error instanceof RateLimitError));
+            assert.strictEqual(error.status, 403);
+            return true;
+        });
+        assert.strictEqual(requests.length, 1);
+        assert.strictEqual(tracker.getState('forbidden'), undefined);
+    });
+});
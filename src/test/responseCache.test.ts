@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { CacheMissError, ResponseCache } from '../responseCache';
+import { createFakeGitHub } from './fakeGitHub';
+
+// ResponseCache is a singleton, so every test keys its entries under its own scope
+suite('ResponseCache', () => {
+    const cache = ResponseCache.getInstance();
+
+    test('revalidates with the stored ETag and answers 304s from the cache', async () => {
+        const { octokit, requests } = createFakeGitHub(request => request.headers['if-none-match'] === '"v1"'
+            ? { status: 304, headers: { etag: '"v1"' } }
+            : { headers: { etag: '"v1"' }, body: [{ number: 1 }] });
+        cache.attach(octokit, 'revalidate');
+        const notModified = cache.getStats().notModified;
+
+        const first = await octokit.request('GET /repos/{owner}/{repo}/issues', { owner: 'octo', repo: 'hello' });
+        const second = await octokit.request('GET /repos/{owner}/{repo}/issues', { owner: 'octo', repo: 'hello' });
+
+        assert.strictEqual(requests.length, 2);
+        assert.strictEqual(requests[0].headers['if-none-match'], undefined);
+        assert.strictEqual(requests[1].headers['if-none-match'], '"v1"');
+        assert.strictEqual(second.status, 200);
+        assert.deepStrictEqual(second.data, first.data);
+        assert.strictEqual(cache.getStats().notModified, notModified + 1);
+    });
+
+    test('does not keep responses GitHub cannot revalidate', async () => {
+        const { octokit, requests } = createFakeGitHub(() => ({ body: { login: 'octo' } }));
+        cache.attach(octokit, 'no-validators');
+
+        await octokit.request('GET /user');
+        await octokit.request('GET /user');
+
+        assert.strictEqual(requests.length, 2);
+        assert.strictEqual(requests[1].headers['if-none-match'], undefined);
+        assert.strictEqual(requests[1].headers['if-modified-since'], undefined);
+    });
+
+    test('answers read-only requests from the cache without the network', async () => {
+        const { octokit, requests } = createFakeGitHub(() => ({ headers: { 'last-modified': 'Mon, 19 Oct 2026 10:00:00 GMT' }, body: { id: 7 } }));
+        cache.attach(octokit, 'read-only');
+
+        await octokit.request('GET /repos/{owner}/{repo}', { owner: 'octo', repo: 'hello' });
+        const cached = await cache.readOnly(() => octokit.request('GET /repos/{owner}/{repo}', { owner: 'octo', repo: 'hello' }));
+
+        assert.deepStrictEqual(cached.data, { id: 7 });
+        await assert.rejects(
+            cache.readOnly(() => octokit.request('GET /repos/{owner}/{repo}', { owner: 'octo', repo: 'other' })),
+            CacheMissError
+        );
+        assert.strictEqual(requests.length, 1);
+    });
+
+    test('evicts the least recently stored entries beyond its capacity', async () => {
+        const { octokit } = createFakeGitHub(request => ({ headers: { etag: `"${request.url}"` }, body: { url: request.url } }));
+        cache.attach(octokit, 'eviction');
+
+        // One more than the 400 entries the cache holds
+        for (let number = 0; number <= 400; number++) {
+            await octokit.request('GET /repos/{owner}/{repo}/issues/{issue_number}', { owner: 'octo', repo: 'hello', issue_number: number });
+        }
+
+        await assert.rejects(
+            cache.readOnly(() => octokit.request('GET /repos/{owner}/{repo}/issues/{issue_number}', { owner: 'octo', repo: 'hello', issue_number: 0 })),
+            CacheMissError
+        );
+        const newest = await cache.readOnly(() => octokit.request('GET /repos/{owner}/{repo}/issues/{issue_number}', { owner: 'octo', repo: 'hello', issue_number: 400 }));
+        assert.ok(String(newest.data.url).endsWith('/issues/400'));
+    });
+});